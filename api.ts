@@ -0,0 +1,375 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { settings } from ".";
+import type { ModelResults } from "./fusion";
+import type { MediaKind } from "./media";
+
+// Client for the CLIP GIF search server (https://github.com/Woodie-07/gif_search_clip_server)
+
+// Optional server features, advertised by GET /version. Servers without /version support none of them.
+export type Capability =
+    // DELETE /{key}/index removes entries
+    | "unindex"
+    // /{key}/search?name= searches by an indexed GIF's embedding
+    | "search-by-name"
+    // GET /{key}/failed lists the GIFs that failed per model
+    | "failures"
+    // GET /{key}/statusstream pushes status counts as Server-Sent Events
+    | "status-stream"
+    // POST /{key}/migrate moves the whole index to a new key
+    | "migrate"
+    // DELETE /{key} revokes a key along with everything stored under it
+    | "revoke"
+    // GET /{key}/usage reports stored entries and bytes per model
+    | "usage"
+    // DELETE /{key}/data deletes the index of some or all models
+    | "delete-data"
+    // GET /{key}/embeddings downloads the stored GIF embeddings and GET /embed embeds text
+    | "embeddings"
+    // POST /{key}/index takes media_types, whether each src is a GIF, a video or an image
+    | "media-types";
+
+export interface ServerInfo {
+    version: string;
+    protocol: number;
+    capabilities: Capability[];
+}
+
+// Per model: [Failed, Downloading, Processing, Completed]
+export type StatusCounts = [number, number, number, number];
+
+export interface StatusCountsResponse {
+    counts: Record<string, StatusCounts>;
+    status: string;
+}
+
+export interface IndexEntries {
+    names: string[];
+    media_srcs: string[];
+    // Only sent to servers with the "media-types" capability, others work it out from the file
+    media_types?: MediaKind[];
+    models: string[];
+}
+
+export interface UnindexEntries {
+    names: string[];
+    models: string[];
+}
+
+export interface FailedEntry {
+    name: string;
+    src: string;
+    error: string;
+}
+
+export interface ModelUsage {
+    entries: number;
+    bytes: number;
+}
+
+// model -> name -> embedding
+export type GifEmbeddings = Record<string, Record<string, number[]>>;
+
+export type SearchQuery = { text: string; } | { name: string; };
+
+export interface ClipApiOptions {
+    baseUrl: string;
+    // Per request timeout in milliseconds
+    timeout?: number;
+    // Used instead of the global fetch, e.g. MockClipServer.fetch
+    fetch?: typeof fetch;
+}
+
+const DEFAULT_TIMEOUT = 30 * 1000;
+// Give up on a status stream after this many errors in a row without a message
+const MAX_STREAM_ERRORS = 3;
+const LEGACY_SERVER: ServerInfo = { version: "unknown", protocol: 1, capabilities: [] };
+
+export class ApiError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = "ApiError";
+    }
+
+    // Worth retrying: rate limits, timeouts and server errors
+    get retryable(): boolean {
+        return this.status === undefined || this.status >= 500 || this.status === 408 || this.status === 429;
+    }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function invalid(path: string, reason: string): ApiError {
+    return new ApiError(`Invalid response from ${path}: ${reason}`);
+}
+
+function validateModels(data: unknown): Record<string, number> {
+    if (!isRecord(data)) throw invalid("/models", "expected an object");
+    for (const [name, weight] of Object.entries(data)) {
+        if (typeof weight !== "number") throw invalid("/models", `weight of ${name} is not a number`);
+    }
+    return data as Record<string, number>;
+}
+
+function validateServerInfo(data: unknown): ServerInfo {
+    if (!isRecord(data)) throw invalid("/version", "expected an object");
+    if (typeof data.version !== "string") throw invalid("/version", "version is not a string");
+    if (typeof data.protocol !== "number") throw invalid("/version", "protocol is not a number");
+    if (!Array.isArray(data.capabilities) || !data.capabilities.every(c => typeof c === "string")) {
+        throw invalid("/version", "capabilities is not a list of strings");
+    }
+    return data as unknown as ServerInfo;
+}
+
+function validateSearch(data: unknown): ModelResults {
+    if (!isRecord(data) || !isRecord(data.results)) throw invalid("/search", "expected an object with results");
+    for (const [model, results] of Object.entries(data.results)) {
+        if (!Array.isArray(results) || !results.every(r => Array.isArray(r) && typeof r[0] === "string" && typeof r[1] === "number")) {
+            throw invalid("/search", `results of ${model} are not [name, distance] pairs`);
+        }
+    }
+    return data.results as ModelResults;
+}
+
+function validateFailures(data: unknown): Record<string, FailedEntry[]> {
+    if (!isRecord(data) || !isRecord(data.failed)) throw invalid("/failed", "expected an object with failed");
+    for (const [model, entries] of Object.entries(data.failed)) {
+        if (!Array.isArray(entries) || !entries.every(e => isRecord(e) && typeof e.name === "string" && typeof e.src === "string")) {
+            throw invalid("/failed", `entries of ${model} are not GIFs`);
+        }
+    }
+
+    const failed: Record<string, FailedEntry[]> = {};
+    for (const [model, entries] of Object.entries(data.failed as Record<string, Record<string, unknown>[]>)) {
+        failed[model] = entries.map(e => ({
+            name: e.name as string,
+            src: e.src as string,
+            error: typeof e.error === "string" ? e.error : "Unknown error"
+        }));
+    }
+    return failed;
+}
+
+function validateUsage(data: unknown): Record<string, ModelUsage> {
+    if (!isRecord(data) || !isRecord(data.models)) throw invalid("/usage", "expected an object with models");
+    for (const [model, usage] of Object.entries(data.models)) {
+        if (!isRecord(usage) || typeof usage.entries !== "number" || typeof usage.bytes !== "number") {
+            throw invalid("/usage", `usage of ${model} is not entries and bytes`);
+        }
+    }
+    return data.models as Record<string, ModelUsage>;
+}
+
+function isVector(value: unknown): value is number[] {
+    return Array.isArray(value) && value.length > 0 && value.every(v => typeof v === "number");
+}
+
+function validateGifEmbeddings(data: unknown): GifEmbeddings {
+    if (!isRecord(data) || !isRecord(data.embeddings)) throw invalid("/embeddings", "expected an object with embeddings");
+    for (const [model, embeddings] of Object.entries(data.embeddings)) {
+        if (!isRecord(embeddings) || !Object.values(embeddings).every(isVector)) {
+            throw invalid("/embeddings", `embeddings of ${model} are not vectors`);
+        }
+    }
+    return data.embeddings as GifEmbeddings;
+}
+
+function validateTextEmbeddings(data: unknown): Record<string, number[]> {
+    if (!isRecord(data) || !isRecord(data.embeddings)) throw invalid("/embed", "expected an object with embeddings");
+    for (const [model, embedding] of Object.entries(data.embeddings)) {
+        if (!isVector(embedding)) throw invalid("/embed", `embedding of ${model} is not a vector`);
+    }
+    return data.embeddings as Record<string, number[]>;
+}
+
+function validateStatusCounts(data: unknown): StatusCountsResponse {
+    if (!isRecord(data) || !isRecord(data.counts)) throw invalid("/statuscounts", "expected an object with counts");
+    for (const [model, counts] of Object.entries(data.counts)) {
+        if (!Array.isArray(counts) || counts.length !== 4 || !counts.every(c => typeof c === "number")) {
+            throw invalid("/statuscounts", `counts of ${model} are not 4 numbers`);
+        }
+    }
+    return { counts: data.counts as Record<string, StatusCounts>, status: typeof data.status === "string" ? data.status : "" };
+}
+
+export class ClipApiClient {
+    readonly baseUrl: string;
+    private readonly timeout: number;
+    private readonly fetchImpl: typeof fetch;
+    private serverInfo: Promise<ServerInfo> | null = null;
+
+    constructor(options: ClipApiOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+        this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+        this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    }
+
+    // Every request goes through here so they share the timeout, abort handling and error format
+    private async request(path: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> {
+        const timeoutSignal = AbortSignal.timeout(this.timeout);
+        const response = await this.fetchImpl(`${this.baseUrl}${path}`, {
+            ...init,
+            signal: signal ? AbortSignal.any([signal, timeoutSignal]) : timeoutSignal
+        });
+
+        if (!response.ok) {
+            throw new ApiError(`HTTP error! status: ${response.status}`, response.status);
+        }
+        return response;
+    }
+
+    private async requestJson(path: string, init?: RequestInit, signal?: AbortSignal): Promise<unknown> {
+        const response = await this.request(path, init, signal);
+        try {
+            return await response.json();
+        } catch {
+            throw new ApiError("Invalid response: body is not JSON");
+        }
+    }
+
+    private sendJson(path: string, method: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+        return this.request(path, {
+            method,
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(body)
+        }, signal);
+    }
+
+    // Read the server version and capabilities once, treating servers without /version as the original protocol
+    getServerInfo(): Promise<ServerInfo> {
+        this.serverInfo ??= this.requestJson("/version")
+            .then(validateServerInfo)
+            .catch(error => {
+                if (error instanceof ApiError && error.status === 404) return LEGACY_SERVER;
+                // don't cache failures, the server may just be temporarily unreachable
+                this.serverInfo = null;
+                throw error;
+            });
+        return this.serverInfo;
+    }
+
+    async supports(capability: Capability): Promise<boolean> {
+        try {
+            return (await this.getServerInfo()).capabilities.includes(capability);
+        } catch {
+            return false;
+        }
+    }
+
+    async getModels(signal?: AbortSignal): Promise<Record<string, number>> {
+        return validateModels(await this.requestJson("/models", undefined, signal));
+    }
+
+    async index(key: string, entries: IndexEntries, signal?: AbortSignal): Promise<void> {
+        await this.sendJson(`/${key}/index`, "POST", entries, signal);
+    }
+
+    async unindex(key: string, entries: UnindexEntries, signal?: AbortSignal): Promise<void> {
+        await this.sendJson(`/${key}/index`, "DELETE", entries, signal);
+    }
+
+    async search(key: string, query: SearchQuery, models: string[], signal?: AbortSignal, k = 10000): Promise<ModelResults> {
+        const params = new URLSearchParams();
+        if ("text" in query) params.set("text", query.text);
+        else params.set("name", query.name);
+        params.set("models", models.join(","));
+        params.set("k", String(k));
+
+        return validateSearch(await this.requestJson(`/${key}/search?${params}`, undefined, signal));
+    }
+
+    async migrate(oldKey: string, newKey: string, signal?: AbortSignal): Promise<void> {
+        await this.sendJson(`/${oldKey}/migrate`, "POST", { new_key: newKey }, signal);
+    }
+
+    async revoke(key: string, signal?: AbortSignal): Promise<void> {
+        await this.request(`/${key}`, { method: "DELETE" }, signal);
+    }
+
+    async getUsage(key: string, signal?: AbortSignal): Promise<Record<string, ModelUsage>> {
+        return validateUsage(await this.requestJson(`/${key}/usage`, undefined, signal));
+    }
+
+    // Delete the index of the given models, or of every model when none are given
+    async deleteData(key: string, models?: string[], signal?: AbortSignal): Promise<void> {
+        await this.sendJson(`/${key}/data`, "DELETE", { models: models ?? null }, signal);
+    }
+
+    async getEmbeddings(key: string, models: string[], signal?: AbortSignal): Promise<GifEmbeddings> {
+        const params = new URLSearchParams({ models: models.join(",") });
+        return validateGifEmbeddings(await this.requestJson(`/${key}/embeddings?${params}`, undefined, signal));
+    }
+
+    // Text embeddings aren't tied to an account, so this doesn't need a key
+    async embedText(text: string, models: string[], signal?: AbortSignal): Promise<Record<string, number[]>> {
+        const params = new URLSearchParams({ text, models: models.join(",") });
+        return validateTextEmbeddings(await this.requestJson(`/embed?${params}`, undefined, signal));
+    }
+
+    async getFailures(key: string, models: string[], signal?: AbortSignal): Promise<Record<string, FailedEntry[]>> {
+        const params = new URLSearchParams({ models: models.join(",") });
+        return validateFailures(await this.requestJson(`/${key}/failed?${params}`, undefined, signal));
+    }
+
+    async getStatusCounts(key: string, signal?: AbortSignal): Promise<StatusCountsResponse> {
+        return validateStatusCounts(await this.requestJson(`/${key}/statuscounts`, undefined, signal));
+    }
+
+    // Subscribe to pushed status counts, returns a function that closes the stream.
+    // onFail is called once if the stream can't be kept open, so the caller can fall back to polling.
+    openStatusStream(key: string, onCounts: (data: StatusCountsResponse) => void, onFail: (error: Error) => void): () => void {
+        const source = new EventSource(`${this.baseUrl}/${key}/statusstream`);
+        let errors = 0;
+
+        const fail = (error: Error) => {
+            source.close();
+            onFail(error);
+        };
+
+        source.onmessage = event => {
+            errors = 0;
+            try {
+                onCounts(validateStatusCounts(JSON.parse(event.data)));
+            } catch (error: any) {
+                fail(error instanceof ApiError ? error : invalid("/statusstream", "message is not JSON"));
+            }
+        };
+        // EventSource reconnects by itself, only give up when it stops or keeps failing
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED || ++errors >= MAX_STREAM_ERRORS) {
+                fail(new ApiError("Status stream disconnected"));
+            }
+        };
+
+        return () => source.close();
+    }
+}
+
+let client: ClipApiClient | null = null;
+
+// Shared client for the configured API URL, recreated when the setting changes
+export function getApiClient(): ClipApiClient {
+    const baseUrl = settings.store.api_url.replace(/\/+$/, "");
+    if (client?.baseUrl !== baseUrl) client = new ClipApiClient({ baseUrl });
+    return client!;
+}
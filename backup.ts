@@ -0,0 +1,309 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { OptionType } from "@utils/types";
+
+import { settings, stopUpload } from ".";
+import { getApiClient } from "./api";
+import { clearPendingUpload, clearSyncState, getPendingUpload, getSyncStates, hasSyncState, setSyncState } from "./indexState";
+import { ACCOUNT_KEY_LENGTH, getAccountKey } from "./keys";
+
+// Portable backup of the plugin's state, so a reinstall or new machine can pick up the same server index.
+// Account keys can be encrypted with a passphrase (PBKDF2 + AES-GCM). Approved CSP hosts and pending key
+// revocations are left out on purpose: the former must be approved again on each install, the latter hold old keys.
+
+const BUNDLE_FORMAT = "clip-fav-gif-search-backup";
+const BUNDLE_VERSION = 1;
+const PBKDF2_ITERATIONS = 250_000;
+
+export interface BackupAccount {
+    key?: string;
+    // Last synced favourites and models, so the new install doesn't upload everything again
+    syncState?: { favorites: string[]; models: string[]; };
+    searchHistory?: string[];
+    savedQueries?: string[];
+}
+
+interface EncryptedData {
+    salt: string;
+    iv: string;
+    data: string;
+}
+
+export interface BackupBundle {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    accounts: Record<string, BackupAccount>;
+    // user id -> account key, when exported with a passphrase
+    encryptedKeys?: EncryptedData;
+    modelWeights: Record<string, number>;
+    // Named weight presets, missing from backups made before presets existed
+    weightPresets?: Record<string, Record<string, number>>;
+    preferences: Record<string, unknown>;
+}
+
+// What to do with accounts whose key in the backup differs from the one here
+export type KeyConflictChoice = "ask" | "replace" | "keep";
+
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "BackupError";
+    }
+}
+
+// Thrown when importing with "ask" and some accounts already have a different key
+export class KeyConflictError extends BackupError {
+    constructor(readonly userIds: string[]) {
+        super(`The backup has a different key for ${userIds.length} account${userIds.length === 1 ? "" : "s"} than this install`);
+        this.name = "KeyConflictError";
+    }
+}
+
+interface OptionDef {
+    type: OptionType;
+    options?: { value: unknown; }[];
+    isValid?(value: unknown): boolean | string;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === "string");
+}
+
+function isWeights(value: unknown): value is Record<string, number> {
+    return isRecord(value) && Object.values(value).every(w => typeof w === "number");
+}
+
+function invalid(reason: string): BackupError {
+    return new BackupError(`Not a valid backup: ${reason}`);
+}
+
+function validateAccount(userId: string, data: unknown): BackupAccount {
+    if (!isRecord(data)) throw invalid(`account ${userId} is not an object`);
+    if (data.key !== undefined && (typeof data.key !== "string" || data.key.length !== ACCOUNT_KEY_LENGTH)) {
+        throw invalid(`account ${userId} has an invalid key`);
+    }
+    if (data.syncState !== undefined && (!isRecord(data.syncState) || !isStringArray(data.syncState.favorites) || !isStringArray(data.syncState.models))) {
+        throw invalid(`account ${userId} has an invalid sync state`);
+    }
+    if (data.searchHistory !== undefined && !isStringArray(data.searchHistory)) throw invalid(`account ${userId} has an invalid search history`);
+    if (data.savedQueries !== undefined && !isStringArray(data.savedQueries)) throw invalid(`account ${userId} has invalid saved searches`);
+    return data as BackupAccount;
+}
+
+function validateBundle(data: unknown): BackupBundle {
+    if (!isRecord(data) || data.format !== BUNDLE_FORMAT) throw invalid("not a CLIP GIF search backup");
+    if (typeof data.version !== "number" || data.version > BUNDLE_VERSION) {
+        throw new BackupError(`Backup version ${data.version} is newer than this plugin supports, update the plugin first`);
+    }
+    if (!isRecord(data.accounts)) throw invalid("accounts is not an object");
+    for (const [userId, account] of Object.entries(data.accounts)) validateAccount(userId, account);
+
+    if (data.encryptedKeys !== undefined) {
+        const encrypted = data.encryptedKeys;
+        if (!isRecord(encrypted) || typeof encrypted.salt !== "string" || typeof encrypted.iv !== "string" || typeof encrypted.data !== "string") {
+            throw invalid("encrypted keys are malformed");
+        }
+    }
+    if (!isWeights(data.modelWeights)) throw invalid("model weights are not numbers");
+    if (data.weightPresets !== undefined && (!isRecord(data.weightPresets) || !Object.values(data.weightPresets).every(isWeights))) {
+        throw invalid("weight presets are malformed");
+    }
+    if (!isRecord(data.preferences)) throw invalid("preferences is not an object");
+    return data as unknown as BackupBundle;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string) {
+    return Uint8Array.from(atob(text), c => c.charCodeAt(0));
+}
+
+async function deriveKey(passphrase: string, salt: BufferSource): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+}
+
+async function encrypt(plaintext: string, passphrase: string): Promise<EncryptedData> {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await deriveKey(passphrase, salt), new TextEncoder().encode(plaintext));
+    return { salt: toBase64(salt), iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decrypt(encrypted: EncryptedData, passphrase: string): Promise<string> {
+    try {
+        const key = await deriveKey(passphrase, fromBase64(encrypted.salt));
+        const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(encrypted.iv) }, key, fromBase64(encrypted.data));
+        return new TextDecoder().decode(data);
+    } catch {
+        throw new BackupError("Wrong passphrase, or the backup is damaged");
+    }
+}
+
+// Every plain option, i.e. everything but the settings page components
+function getPreferenceKeys(): string[] {
+    return Object.entries(settings.def as Record<string, OptionDef>)
+        .filter(([, def]) => def.type !== OptionType.COMPONENT)
+        .map(([key]) => key);
+}
+
+// Whether the option would accept the value now: same type, one of its choices, and passing its own validation
+function isValidPreference(key: string, value: unknown): boolean {
+    const def = (settings.def as Record<string, OptionDef>)[key];
+    if (typeof value !== typeof settings.store[key]) return false;
+    if (def.type === OptionType.SELECT && !def.options?.some(option => option.value === value)) return false;
+    if (def.type === OptionType.NUMBER && !Number.isFinite(value)) return false;
+    return !def.isValid || def.isValid.call(settings.store, value) === true;
+}
+
+export async function exportBackup(passphrase?: string): Promise<string> {
+    const { store } = settings;
+    const accounts: Record<string, BackupAccount> = {};
+    const account = (userId: string) => accounts[userId] ??= {};
+
+    for (const [userId, key] of Object.entries<string>(store.accountKeys ?? {})) {
+        if (key.length === ACCOUNT_KEY_LENGTH) account(userId).key = key;
+    }
+    for (const { userId, favorites, models } of getSyncStates()) account(userId).syncState = { favorites, models };
+    for (const [userId, history] of Object.entries<string[]>(store.searchHistory ?? {})) account(userId).searchHistory = history;
+    for (const [userId, saved] of Object.entries<string[]>(store.savedQueries ?? {})) account(userId).savedQueries = saved;
+
+    const bundle: BackupBundle = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        accounts,
+        modelWeights: store.modelWeights ?? {},
+        weightPresets: store.weightPresets ?? {},
+        preferences: Object.fromEntries(getPreferenceKeys().map(key => [key, store[key]]))
+    };
+
+    if (passphrase) {
+        const keys = Object.fromEntries(Object.entries(accounts).filter(([, a]) => a.key).map(([userId, a]) => [userId, a.key!]));
+        Object.values(accounts).forEach(a => delete a.key);
+        bundle.encryptedKeys = await encrypt(JSON.stringify(keys), passphrase);
+    }
+
+    return JSON.stringify(bundle, null, 2);
+}
+
+export function isEncryptedBackup(json: string): boolean {
+    try {
+        const data: unknown = JSON.parse(json);
+        return isRecord(data) && data.encryptedKeys !== undefined;
+    } catch {
+        return false;
+    }
+}
+
+// Merge a backup into the current state account by account, returns how many accounts it had.
+// Accounts that already have a different key throw a KeyConflictError unless told what to do with them.
+export async function importBackup(json: string, passphrase?: string, keyConflicts: KeyConflictChoice = "ask"): Promise<number> {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw invalid("the file is not JSON");
+    }
+    const bundle = validateBundle(data);
+
+    const accounts = bundle.accounts;
+    if (bundle.encryptedKeys) {
+        if (!passphrase) throw new BackupError("This backup is encrypted, enter its passphrase to import it");
+        const keys: unknown = JSON.parse(await decrypt(bundle.encryptedKeys, passphrase));
+        if (!isRecord(keys)) throw invalid("encrypted keys are malformed");
+        for (const [userId, key] of Object.entries(keys)) {
+            (accounts[userId] ??= {}).key = key as string;
+            validateAccount(userId, accounts[userId]);
+        }
+    }
+
+    const { store } = settings;
+    const conflicts = Object.entries(accounts)
+        .filter(([userId, account]) => {
+            const current = getAccountKey(userId);
+            return account.key && current && current !== account.key;
+        })
+        .map(([userId]) => userId);
+    if (conflicts.length > 0 && keyConflicts === "ask") throw new KeyConflictError(conflicts);
+
+    const keysToSet = Object.entries(accounts).filter(([userId, account]) =>
+        account.key && store.accountKeys?.[userId] !== account.key && !(keyConflicts === "keep" && conflicts.includes(userId)));
+
+    // A running upload would carry on under the replaced key and then mark the account synced under the new one
+    if (keysToSet.length > 0) await stopUpload();
+
+    const replacedKeys: string[] = [];
+    for (const [userId, account] of keysToSet) {
+        const oldKey = getAccountKey(userId);
+        if (oldKey) replacedKeys.push(oldKey);
+        store.accountKeys = { ...store.accountKeys, [userId]: account.key! };
+        // whatever this install synced or was uploading belongs to the key that was just replaced
+        clearSyncState(userId);
+        clearPendingUpload(userId);
+    }
+
+    for (const [userId, account] of Object.entries(accounts)) {
+        // The sync state only means something for the key it was synced under, and never replaces what this install synced
+        if (account.syncState && account.key && store.accountKeys?.[userId] === account.key && !hasSyncState(userId) && !getPendingUpload(userId)) {
+            setSyncState({ userId, ...account.syncState });
+        }
+        if (account.searchHistory) {
+            const history = [...new Set([...store.searchHistory?.[userId] ?? [], ...account.searchHistory])];
+            store.searchHistory = { ...store.searchHistory, [userId]: history };
+        }
+        if (account.savedQueries) {
+            const saved = [...new Set([...store.savedQueries?.[userId] ?? [], ...account.savedQueries])];
+            store.savedQueries = { ...store.savedQueries, [userId]: saved };
+        }
+    }
+
+    store.modelWeights = { ...store.modelWeights, ...bundle.modelWeights };
+    store.weightPresets = { ...store.weightPresets, ...bundle.weightPresets };
+
+    // Only known options, and only with values they accept now
+    for (const key of getPreferenceKeys()) {
+        const value = bundle.preferences[key];
+        if (value !== undefined && isValidPreference(key, value)) store[key] = value;
+    }
+
+    // Nothing points at the replaced keys' indexes any more, so they'd stay on the server for good
+    if (replacedKeys.length > 0) {
+        const client = getApiClient();
+        const canRevoke = await client.supports("revoke");
+        for (const key of canRevoke ? replacedKeys : []) {
+            await client.revoke(key).catch(e => console.error("Error revoking replaced account key:", e));
+        }
+    }
+
+    return Object.keys(accounts).length;
+}
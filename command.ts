@@ -0,0 +1,95 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ApplicationCommandInputType, ApplicationCommandOptionType, Argument, CommandContext, findOption, sendBotMessage } from "@api/Commands";
+import { sendMessage } from "@utils/discord";
+
+import { getFavoriteGifs } from "./favorites";
+import { recordPick } from "./learning";
+import { searchFavorites } from "./search";
+
+// /favgif <query> sends the best matching favourite without opening the GIF picker
+
+const CHOICES = 5;
+
+async function execute(args: Argument[], ctx: CommandContext) {
+    const query: string = findOption(args, "query", "");
+    const pick = Math.max(1, findOption<number>(args, "pick", 1));
+    const choose: boolean = findOption(args, "choose", false);
+
+    let result;
+    try {
+        result = await searchFavorites(query, getFavoriteGifs());
+    } catch (err: any) {
+        sendBotMessage(ctx.channel.id, { content: `Search failed: ${err.message || err}` });
+        return;
+    }
+
+    if (!result.ok) {
+        sendBotMessage(ctx.channel.id, { content: result.error });
+        return;
+    }
+
+    const { matches } = result.outcome;
+    if (matches.length === 0) {
+        sendBotMessage(ctx.channel.id, { content: `No favourite GIFs match "${query}"` });
+        return;
+    }
+
+    // Only shown to the user, who can then send one with pick:<n>
+    if (choose) {
+        const choices = matches.slice(0, CHOICES).map((gif, i) => `${i + 1}. ${gif.url}`);
+        sendBotMessage(ctx.channel.id, { content: `Top matches for "${query}", send one with \`/favgif query:${query} pick:<n>\`\n${choices.join("\n")}` });
+        return;
+    }
+
+    const gif = matches[pick - 1];
+    if (!gif) {
+        sendBotMessage(ctx.channel.id, { content: `Only ${matches.length} favourite GIFs match "${query}"` });
+        return;
+    }
+    sendMessage(ctx.channel.id, { content: gif.url });
+    recordPick(result.outcome.modelResults, gif.url).catch(e => console.error("Error recording GIF pick:", e));
+}
+
+export const favGifCommand = {
+    name: "favgif",
+    description: "Search your favourite GIFs with CLIP and send the best match",
+    inputType: ApplicationCommandInputType.BUILT_IN,
+    options: [
+        {
+            name: "query",
+            description: "What to search for, with the same syntax as the search bar",
+            type: ApplicationCommandOptionType.STRING,
+            required: true
+        },
+        {
+            name: "pick",
+            description: "Send the nth best match instead of the best one",
+            type: ApplicationCommandOptionType.INTEGER,
+            required: false
+        },
+        {
+            name: "choose",
+            description: `Show the top ${CHOICES} matches to you instead of sending one`,
+            type: ApplicationCommandOptionType.BOOLEAN,
+            required: false
+        }
+    ],
+    execute
+};
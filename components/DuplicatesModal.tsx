@@ -0,0 +1,173 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useCallback, useEffect, useRef, useState, Alerts, Button, Flex, Text } from "@webpack/common";
+
+import { settings } from "..";
+import { DuplicateScan, findDuplicates } from "../duplicates";
+import { getFavoriteGifs, unfavoriteGifs } from "../favorites";
+import { GifPreview } from "./GifPreview";
+
+export function openDuplicatesModal() {
+    openModal(props => <DuplicatesModal modalProps={props} />);
+}
+
+function DuplicatesModal({ modalProps }: { modalProps: ModalProps; }) {
+    const [scan, setScan] = useState<DuplicateScan | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    // URLs to unfavourite, every copy but the best one of each group to start with
+    const [selected, setSelected] = useState<Set<string>>(() => new Set());
+    const [removing, setRemoving] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+    const threshold = settings.store.duplicate_similarity;
+
+    const load = useCallback(async (refresh = false) => {
+        abortRef.current?.abort();
+        const controller = abortRef.current = new AbortController();
+        setScan(null);
+        setError(null);
+
+        try {
+            const result = await findDuplicates(getFavoriteGifs(), threshold / 100, controller.signal, refresh);
+            setScan(result);
+            setSelected(new Set(result.groups.flatMap(group => group.slice(1).map(gif => gif.url))));
+        } catch (err: any) {
+            if (err.name === "AbortError") return;
+            console.error("Error finding duplicate GIFs:", err);
+            setError(err.message || "Failed to find duplicates");
+        }
+    }, [threshold]);
+
+    useEffect(() => {
+        load();
+        return () => abortRef.current?.abort();
+    }, [load]);
+
+    const toggle = (url: string) => {
+        const next = new Set(selected);
+        if (!next.delete(url)) next.add(url);
+        setSelected(next);
+    };
+
+    const remove = () => {
+        const urls = [...selected];
+        // Unfavouriting a whole group would lose the GIF altogether rather than a duplicate of it
+        const emptied = scan!.groups.filter(group => group.every(gif => selected.has(gif.url))).length;
+
+        Alerts.show({
+            title: `Unfavourite ${urls.length} GIFs?`,
+            body: emptied > 0
+                ? `Every copy in ${emptied} of the groups is selected, so those GIFs will be gone from your favourites entirely.`
+                : "The selected copies will be removed from your favourites on all your devices.",
+            confirmText: "Unfavourite",
+            cancelText: "Cancel",
+            onConfirm: async () => {
+                setRemoving(true);
+                setNotice(null);
+                try {
+                    await unfavoriteGifs(urls);
+                    setNotice(`Unfavourited ${urls.length} GIFs`);
+                    setScan({ ...scan!, groups: scan!.groups.map(group => group.filter(gif => !selected.has(gif.url))).filter(group => group.length > 1) });
+                    setSelected(new Set());
+                } catch (err: any) {
+                    console.error("Error unfavouriting GIFs:", err);
+                    setError(err.message || "Failed to unfavourite GIFs");
+                } finally {
+                    setRemoving(false);
+                }
+            }
+        });
+    };
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Duplicate favourites</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <div style={{ padding: "12px 0" }}>
+                    {error && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--status-danger)", marginBottom: 8 }}>
+                            Error: {error}
+                        </Text>
+                    )}
+                    {notice && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--status-positive)", marginBottom: 8 }}>
+                            {notice}
+                        </Text>
+                    )}
+
+                    {scan == null && !error && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                            Comparing your favourites...
+                        </Text>
+                    )}
+                    {scan && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)", marginBottom: 8 }}>
+                            {scan.groups.length === 0 ? "No duplicates found" : `${scan.groups.length} groups`} at {threshold}% similarity with {scan.model}.
+                            {" "}Checked copies will be unfavourited.
+                            {scan.unindexed > 0 && ` ${scan.unindexed} favourites aren't indexed yet and weren't compared.`}
+                        </Text>
+                    )}
+
+                    {scan?.groups.map(group => (
+                        <Flex key={group[0].url} direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.75rem", flexWrap: "wrap", padding: 8, marginBottom: 4, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                            {group.map(gif => (
+                                <label key={gif.url} title={gif.url} style={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 4 }}>
+                                    <GifPreview gif={gif} size={72} />
+                                    <Flex direction={Flex.Direction.HORIZONTAL} style={{ alignItems: "center", gap: 4 }}>
+                                        <input type="checkbox" checked={selected.has(gif.url)} onChange={() => toggle(gif.url)} />
+                                        <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>
+                                            {gif.width}×{gif.height}
+                                        </Text>
+                                    </Flex>
+                                </label>
+                            ))}
+                        </Flex>
+                    ))}
+                </div>
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem" }}>
+                    <Button
+                        onClick={remove}
+                        disabled={removing || selected.size === 0}
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                    >
+                        Unfavourite {selected.size} selected
+                    </Button>
+                    <Button
+                        onClick={() => load(true)}
+                        disabled={removing}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Scan again
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
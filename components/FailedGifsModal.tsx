@@ -0,0 +1,171 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useCallback, useEffect, useMemo, useState, Button, Flex, Forms, Text, UserStore } from "@webpack/common";
+
+import { Gif, GifFormat, requeueGifs, settings } from "..";
+import { FailedEntry, getApiClient } from "../api";
+import { getFavoriteGifs } from "../favorites";
+import { getAccountKey } from "../keys";
+import { GifPreview } from "./GifPreview";
+
+export function openFailedGifsModal(model: string) {
+    openModal(props => <FailedGifsModal modalProps={props} model={model} />);
+}
+
+function FailedGifsModal({ modalProps, model }: { modalProps: ModalProps; model: string; }) {
+    const [failed, setFailed] = useState<FailedEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(() => new Set());
+    const [retryModels, setRetryModels] = useState<Set<string>>(() => new Set([model]));
+    const [retrying, setRetrying] = useState(false);
+
+    // Prefer the favourite's current src for previews and retries, the server's copy may be stale
+    const favorites = useMemo(() => new Map(getFavoriteGifs().map(gif => [gif.url, gif])), []);
+    const toGif = (entry: FailedEntry): Gif => favorites.get(entry.name)
+        ?? { url: entry.name, src: entry.src, format: GifFormat.IMAGE, width: 0, height: 0, order: 0 };
+
+    const load = useCallback(async () => {
+        const key = getAccountKey(UserStore.getCurrentUser().id);
+        if (!key) {
+            setError("No valid account key found");
+            return;
+        }
+
+        try {
+            const result = await getApiClient().getFailures(key, [model]);
+            setFailed(result[model] ?? []);
+            setSelected(new Set());
+            setError(null);
+        } catch (err: any) {
+            console.error("Error fetching failed GIFs:", err);
+            setError(err.message || "Failed to fetch failed GIFs");
+        }
+    }, [model]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const retry = async (entries: FailedEntry[]) => {
+        setRetrying(true);
+        setNotice(null);
+        try {
+            await requeueGifs(entries.map(entry => {
+                const gif = toGif(entry);
+                return { name: entry.name, src: gif.src, gif };
+            }), [...retryModels]);
+            setNotice(`Re-queued ${entries.length} GIFs for ${[...retryModels].join(", ")}`);
+            await load();
+        } catch (err: any) {
+            console.error("Error re-queueing failed GIFs:", err);
+            setError(err.message || "Failed to re-queue GIFs");
+        } finally {
+            setRetrying(false);
+        }
+    };
+
+    const toggle = <T,>(set: Set<T>, value: T): Set<T> => {
+        const next = new Set(set);
+        if (!next.delete(value)) next.add(value);
+        return next;
+    };
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Failed GIFs: {model}</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent>
+                <div style={{ padding: "12px 0" }}>
+                    <Forms.FormTitle tag="h5">Retry with</Forms.FormTitle>
+                    <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "1rem", flexWrap: "wrap", marginBottom: 12 }}>
+                        {Object.keys(settings.store.modelWeights ?? {}).map(name => (
+                            <label key={name} style={{ display: "flex", alignItems: "center", gap: 4 }}>
+                                <input type="checkbox" checked={retryModels.has(name)} onChange={() => setRetryModels(toggle(retryModels, name))} />
+                                <Text variant={"text-sm/normal"}>{name}</Text>
+                            </label>
+                        ))}
+                    </Flex>
+
+                    {error && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--status-danger)", marginBottom: 8 }}>
+                            Error: {error}
+                        </Text>
+                    )}
+                    {notice && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--status-positive)", marginBottom: 8 }}>
+                            {notice}
+                        </Text>
+                    )}
+
+                    {failed == null && !error && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                            Loading failed GIFs...
+                        </Text>
+                    )}
+                    {failed?.length === 0 && (
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                            No failed GIFs for this model
+                        </Text>
+                    )}
+
+                    {failed?.map(entry => (
+                        <Flex key={entry.name} direction={Flex.Direction.HORIZONTAL} style={{ alignItems: "center", gap: "0.75rem", padding: 8, marginBottom: 4, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                            <input type="checkbox" checked={selected.has(entry.name)} onChange={() => setSelected(toggle(selected, entry.name))} />
+                            <GifPreview gif={toGif(entry)} size={48} />
+                            <div style={{ minWidth: 0 }}>
+                                <Text variant={"text-sm/normal"} style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                    {entry.name}
+                                </Text>
+                                <Text variant={"text-xs/normal"} style={{ color: "var(--status-danger)" }}>
+                                    {entry.error}
+                                </Text>
+                            </div>
+                        </Flex>
+                    ))}
+                </div>
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem" }}>
+                    <Button
+                        onClick={() => retry(failed!.filter(entry => selected.has(entry.name)))}
+                        disabled={retrying || selected.size === 0 || retryModels.size === 0}
+                        size={Button.Sizes.SMALL}
+                    >
+                        Retry selected
+                    </Button>
+                    <Button
+                        onClick={() => retry(failed!)}
+                        disabled={retrying || !failed?.length || retryModels.size === 0}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Retry all failed
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
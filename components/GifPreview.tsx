@@ -0,0 +1,26 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { Gif, GifFormat } from "..";
+
+export function GifPreview({ gif, size }: { gif: Gif; size: number; }) {
+    const style = { width: size, height: size, objectFit: "cover" as const, borderRadius: 4, flexShrink: 0 };
+    return gif.format === GifFormat.VIDEO
+        ? <video src={gif.src} style={style} autoPlay loop muted />
+        : <img src={gif.src} style={style} alt="" />;
+}
@@ -0,0 +1,145 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { useState, Clickable, Flex, Text } from "@webpack/common";
+
+import { Gif, settings } from "..";
+import { buildRankingMaps, ModelResults } from "../fusion";
+import { nudgeWeights } from "../learning";
+import { applyWeightPreset, getActivePreset, getWeightPresets } from "../presets";
+import { hasFilters, matchesFilters } from "../query";
+import type { SearchOutcome } from "../search";
+import { GifPreview } from "./GifPreview";
+
+// Side by side top results of every model for the current search, next to the combined ranking,
+// so the weights can be tuned by seeing which model actually finds what was searched for
+
+const TOP_N = 5;
+const PREVIEW_SIZE = 48;
+
+// Each model's ranking across the queries of one search, by the best rank any query gave a GIF.
+// Ranked the way fusion ranks them, so the columns show what went into the combined results.
+function rankByModel(modelResults: ModelResults[]): Record<string, string[]> {
+    const best: Record<string, Map<string, number>> = {};
+    for (const results of modelResults) {
+        for (const [model, rankings] of Object.entries(buildRankingMaps(results))) {
+            const ranks = best[model] ??= new Map();
+            rankings.forEach((rank, name) => {
+                const current = ranks.get(name);
+                if (current === undefined || rank < current) ranks.set(name, rank);
+            });
+        }
+    }
+    return Object.fromEntries(Object.entries(best).map(([model, ranks]) => [
+        model,
+        [...ranks].sort((a, b) => a[1] - b[1]).map(([name]) => name)
+    ]));
+}
+
+function ComparisonColumn({ title, gifs, onRight }: { title: string; gifs: Gif[]; onRight?: () => void; }) {
+    return (
+        <Flex direction={Flex.Direction.VERTICAL} style={{ gap: 4, width: PREVIEW_SIZE + 16, flexShrink: 0, flexGrow: 0, alignItems: "center" }}>
+            <Text variant={"text-xs/semibold"} title={title} style={{ maxWidth: "100%", overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                {title}
+            </Text>
+            {gifs.map(gif => <GifPreview key={gif.url} gif={gif} size={PREVIEW_SIZE} />)}
+            {gifs.length === 0 && <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>No results</Text>}
+            {onRight && (
+                <Clickable onClick={onRight} title={`Give ${title} more weight`}>
+                    <Text variant={"text-xs/normal"} style={{ color: "var(--text-link)", textAlign: "center" }}>Got it right</Text>
+                </Clickable>
+            )}
+        </Flex>
+    );
+}
+
+export function ModelComparison({ outcome, favorites, exclude, onWeightsChanged }: {
+    outcome: SearchOutcome;
+    favorites: Gif[];
+    // The GIF a "more like this" search started from, which every model ranks first
+    exclude: Gif | null;
+    onWeightsChanged: () => void;
+}) {
+    const [notice, setNotice] = useState<string | null>(null);
+
+    const byUrl = new Map(favorites.map(gif => [gif.url, gif]));
+    const toGifs = (names: string[]) => names
+        .filter(name => name !== exclude?.url)
+        .map(name => byUrl.get(name))
+        .filter((gif): gif is Gif => gif != null)
+        // Same ratio, size and format filters as the combined results, so the columns compare like with like
+        .filter(gif => !hasFilters(outcome.query) || matchesFilters(gif, outcome.query))
+        .slice(0, TOP_N);
+
+    const rankings = rankByModel(outcome.modelResults);
+    const presets = Object.keys(getWeightPresets());
+    const activePreset = getActivePreset();
+
+    const nudge = (model: string) => {
+        nudgeWeights(model);
+        setNotice(`Weights moved towards ${model}, now ${((settings.store.modelWeights?.[model] ?? 0) * 100).toFixed(0)}%`);
+        onWeightsChanged();
+    };
+
+    const applyPreset = (name: string) => {
+        if (applyWeightPreset(name)) {
+            setNotice(`Switched to the "${name}" weights`);
+            onWeightsChanged();
+        }
+    };
+
+    return (
+        <div style={{ marginTop: 8, padding: 8, borderRadius: 8, backgroundColor: "var(--background-secondary)" }}>
+            {Object.keys(rankings).length === 0
+                ? <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>Only keyword matches for this search, there's nothing to compare</Text>
+                : (
+                    <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: 8, overflowX: "auto", paddingBottom: 4 }}>
+                        <ComparisonColumn title="Combined" gifs={outcome.matches.slice(0, TOP_N)} />
+                        {Object.entries(rankings).map(([model, names]) => (
+                            <ComparisonColumn key={model} title={model} gifs={toGifs(names)} onRight={() => nudge(model)} />
+                        ))}
+                    </Flex>
+                )}
+
+            {presets.length > 0 && (
+                <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.25rem", flexWrap: "wrap", alignItems: "center", marginTop: 8 }}>
+                    <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>Presets:</Text>
+                    {presets.map(name => (
+                        <Clickable
+                            key={name}
+                            onClick={() => applyPreset(name)}
+                            style={{
+                                padding: "2px 8px",
+                                borderRadius: 16,
+                                backgroundColor: name === activePreset ? "var(--brand-500)" : "var(--background-tertiary)"
+                            }}
+                        >
+                            <Text variant={"text-xs/normal"} style={{ color: name === activePreset ? "var(--white-500)" : undefined }}>{name}</Text>
+                        </Clickable>
+                    ))}
+                </Flex>
+            )}
+
+            {notice && (
+                <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)", marginTop: 4 }}>
+                    {notice}
+                </Text>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,80 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { PluginNative } from "@utils/types";
+
+import { settings } from ".";
+import { ApiError, ClipApiClient } from "./api";
+import type { AllowHostResult } from "./native";
+
+const Native = VencordNative.pluginHelpers.ClipFavGifSearch as PluginNative<typeof import("./native")>;
+
+export type ConnectionErrorKind = "invalid-url" | "csp" | "tls" | "network" | "timeout" | "http" | "response";
+
+export type ConnectionTestResult =
+    | { ok: true; models: string[]; }
+    | { ok: false; kind: ConnectionErrorKind; message: string; };
+
+// Register the configured server with Discord's CSP, asking the user to confirm new hosts.
+// Approved hosts are remembered so the native side can register them again on startup.
+export async function ensureApiHostAllowed(): Promise<AllowHostResult> {
+    const { result, host } = await Native.allowApiHost(settings.store.api_url);
+
+    if (result === "allowed" && host) {
+        const approved = settings.store.approvedHosts ?? [];
+        if (!approved.includes(host)) settings.store.approvedHosts = [...approved, host];
+    }
+
+    return result;
+}
+
+// Check /models step by step so CSP, TLS and HTTP problems are reported separately
+export async function testConnection(): Promise<ConnectionTestResult> {
+    const url = settings.store.api_url;
+    try {
+        const { protocol } = new URL(url);
+        if (protocol !== "https:" && protocol !== "http:") throw new Error();
+    } catch {
+        return { ok: false, kind: "invalid-url", message: `"${url}" is not a valid http(s) URL` };
+    }
+
+    // The main process isn't restricted by the CSP, so this tells us whether the server itself is reachable
+    const probe = await Native.probeApi(url);
+    if (!probe.ok) return { ok: false, kind: probe.kind, message: probe.message };
+
+    if (!await Native.isApiHostAllowed(url)) {
+        return { ok: false, kind: "csp", message: "This server isn't allowed by Discord's Content Security Policy yet" };
+    }
+
+    let models: Record<string, number>;
+    try {
+        models = await new ClipApiClient({ baseUrl: url }).getModels();
+    } catch (err: any) {
+        if (err instanceof ApiError) {
+            return { ok: false, kind: err.status !== undefined ? "http" : "response", message: err.message };
+        }
+        // The server answered the main process, so a failed fetch here means Discord blocked it
+        if (err instanceof TypeError) {
+            return { ok: false, kind: "csp", message: "The server is reachable but Discord blocked the request. If you just allowed it, reload Discord (Ctrl+R)" };
+        }
+        if (err?.name === "TimeoutError") return { ok: false, kind: "timeout", message: err.message };
+        return { ok: false, kind: "response", message: err?.message ?? String(err) };
+    }
+
+    return { ok: true, models: Object.keys(models) };
+}
@@ -0,0 +1,104 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { UserStore } from "@webpack/common";
+
+import { Gif, settings } from ".";
+import { getApiClient } from "./api";
+import { getAccountKey } from "./keys";
+import { dot, getLocalEmbeddings, isEmbeddingsStale, syncEmbeddings } from "./localEmbeddings";
+
+// Finds favourites that are the same GIF saved more than once, e.g. a Tenor link and a Discord-proxied copy of it,
+// or re-encodes at another size, by clustering the favourites whose embeddings are nearly identical
+
+export interface DuplicateScan {
+    model: string;
+    // Each group is best copy first, the one worth keeping
+    groups: Gif[][];
+    // Favourites without an embedding yet, which couldn't be compared
+    unindexed: number;
+}
+
+// Rows compared between yielding to the UI, the comparison is quadratic in the number of favourites
+const ROWS_PER_YIELD = 50;
+
+// The model trusted most for searching is also the best judge of what looks the same
+function getScanModel(): string | null {
+    const weights: Record<string, number> = settings.store.modelWeights ?? {};
+    const [best] = Object.entries(weights).filter(([, w]) => w > 0).sort((a, b) => b[1] - a[1]);
+    return best?.[0] ?? null;
+}
+
+// Bigger first, then the most recently favourited
+function compareCopies(a: Gif, b: Gif): number {
+    return b.width * b.height - a.width * a.height || b.order - a.order;
+}
+
+// threshold is the minimum cosine similarity, 0-1. refresh downloads the embeddings even if the local copy is up to date.
+export async function findDuplicates(favorites: Gif[], threshold: number, signal?: AbortSignal, refresh = false): Promise<DuplicateScan> {
+    const model = getScanModel();
+    if (!model) throw new Error("No model has any weight, give one some in the settings first");
+
+    const id = UserStore.getCurrentUser().id;
+    let embeddings = (await getLocalEmbeddings(id, [model]))[model];
+    // Favourites uploaded since the last download would otherwise never be compared
+    if (!embeddings || refresh || isEmbeddingsStale(embeddings)) {
+        const key = getAccountKey(id);
+        if (!key) throw new Error("No valid account key found");
+
+        if (await getApiClient().supports("embeddings")) {
+            await syncEmbeddings(id, key, [model], signal);
+            embeddings = (await getLocalEmbeddings(id, [model]))[model]!;
+        } else if (!embeddings) {
+            throw new Error("The server doesn't share embeddings, so duplicates can't be found");
+        }
+    }
+
+    const embedded = favorites.filter(gif => embeddings!.vectors.has(gif.url));
+    const vectors = embedded.map(gif => embeddings!.vectors.get(gif.url)!);
+
+    // Union-find, so A ~ B and B ~ C end up in one group even if A and C are a bit further apart
+    const parent = embedded.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+        return i;
+    };
+
+    for (let i = 0; i < vectors.length; i++) {
+        if (i % ROWS_PER_YIELD === 0) {
+            await new Promise(resolve => setTimeout(resolve));
+            signal?.throwIfAborted();
+        }
+        for (let j = i + 1; j < vectors.length; j++) {
+            if (dot(vectors[i], vectors[j]) >= threshold) parent[find(j)] = find(i);
+        }
+    }
+
+    const groups = new Map<number, Gif[]>();
+    embedded.forEach((gif, i) => {
+        const root = find(i);
+        if (!groups.has(root)) groups.set(root, []);
+        groups.get(root)!.push(gif);
+    });
+
+    return {
+        model,
+        groups: [...groups.values()].filter(group => group.length > 1).map(group => group.sort(compareCopies)),
+        unindexed: favorites.length - embedded.length
+    };
+}
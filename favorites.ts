@@ -0,0 +1,48 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { UserSettingsActionCreators } from "@webpack/common";
+
+import type { Gif } from ".";
+
+// Read the current account's favourite GIFs straight from Discord's settings, for places outside the GIF picker
+export function getFavoriteGifs(): Gif[] {
+    const gifs: Record<string, Omit<Gif, "url">> = UserSettingsActionCreators.FrecencyUserSettingsActionCreators.getCurrentValue()?.favoriteGifs?.gifs ?? {};
+
+    return Object.entries(gifs)
+        .map(([url, gif]) => ({
+            url,
+            src: gif.src,
+            width: gif.width,
+            height: gif.height,
+            format: gif.format,
+            order: gif.order
+        }))
+        // newest first, like the picker
+        .sort((a, b) => b.order - a.order);
+}
+
+// Discord's UserSettingsDelay.INFREQUENT_USER_ACTION, i.e. save straight away
+const INFREQUENT_USER_ACTION = 0;
+
+// Unfavourite through Discord's own settings store, so it syncs to other clients just like unfavouriting by hand
+export async function unfavoriteGifs(urls: string[]) {
+    await UserSettingsActionCreators.FrecencyUserSettingsActionCreators.updateAsync("favoriteGifs", (proto: { gifs: Record<string, unknown>; }) => {
+        for (const url of urls) delete proto.gifs[url];
+    }, INFREQUENT_USER_ACTION);
+}
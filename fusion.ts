@@ -0,0 +1,182 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+// Per-model search results as returned by /search: [name, distance] pairs, lower distance = better
+export type ModelResults = Record<string, [string, number][]>;
+
+export type FusionStrategy = "rrf" | "minMax" | "inverseRank";
+
+export interface FusionOptions {
+    // k constant for Reciprocal Rank Fusion, larger values flatten the difference between top ranks
+    rrfK: number;
+}
+
+export interface FusedResult {
+    url: string;
+    score: number;
+}
+
+export const DEFAULT_RRF_K = 60;
+
+// Weight used for models the API returned but we have no setting for
+const DEFAULT_WEIGHT = 0.5;
+
+// Map the model ids returned by the API onto our modelWeights, which may differ in case
+export function resolveModelWeights(modelIds: string[], modelWeights: Record<string, number>): Record<string, number> {
+    const weights: Record<string, number> = {};
+
+    for (const modelId of modelIds) {
+        // prefer direct name match
+        if (modelWeights[modelId] !== undefined) {
+            weights[modelId] = modelWeights[modelId];
+        } else {
+            // fallback: try case-insensitive match
+            const found = Object.keys(modelWeights).find(k => k.toLowerCase() === modelId.toLowerCase());
+            weights[modelId] = found ? modelWeights[found] : DEFAULT_WEIGHT;
+        }
+    }
+
+    return weights;
+}
+
+// Build a url -> rank map per model, rank 1 = best. /search lists aren't guaranteed to be in order.
+export function buildRankingMaps(results: ModelResults): Record<string, Map<string, number>> {
+    const rankingMaps: Record<string, Map<string, number>> = {};
+
+    for (const [modelId, modelResults] of Object.entries(results)) {
+        const sorted = [...modelResults].sort((a, b) => a[1] - b[1]); // sort by ascending score (lower = better)
+        const map = new Map<string, number>();
+        sorted.forEach(([url], idx) => {
+            if (!map.has(url)) map.set(url, idx + 1);
+        });
+        rankingMaps[modelId] = map;
+    }
+
+    return rankingMaps;
+}
+
+function collectUrls(results: ModelResults): Set<string> {
+    const allUrls = new Set<string>();
+    Object.values(results).forEach(modelResults => {
+        modelResults.forEach(([url]) => allUrls.add(url));
+    });
+    return allUrls;
+}
+
+function getWeight(weights: Record<string, number>, modelId: string): number {
+    return weights[modelId] ?? DEFAULT_WEIGHT;
+}
+
+function sortByScore(fused: FusedResult[]): FusedResult[] {
+    return fused.sort((a, b) => b.score - a.score); // higher = better
+}
+
+// Weighted average of inverse ranks over the models that returned the GIF.
+// Kept for compatibility, this favours GIFs only one model returned as missing models aren't counted.
+export function inverseRankFusion(results: ModelResults, weights: Record<string, number>): FusedResult[] {
+    const rankingMaps = buildRankingMaps(results);
+    const fused: FusedResult[] = [];
+
+    for (const url of collectUrls(results)) {
+        let totalScore = 0;
+        let totalWeight = 0;
+
+        for (const [modelId, rankMap] of Object.entries(rankingMaps)) {
+            const weight = getWeight(weights, modelId);
+            const rank = rankMap.get(url);
+            if (rank !== undefined) {
+                totalScore += weight / rank; // inverse rank: higher = better
+                totalWeight += weight;
+            }
+        }
+
+        if (totalWeight === 0) continue;
+        fused.push({ url, score: totalScore / totalWeight });
+    }
+
+    return sortByScore(fused);
+}
+
+// Weighted Reciprocal Rank Fusion: sum of weight / (k + rank), models that missed a GIF contribute nothing
+export function reciprocalRankFusion(results: ModelResults, weights: Record<string, number>, k = DEFAULT_RRF_K): FusedResult[] {
+    // ranks start at 1, so a negative k would divide by zero or flip scores
+    k = Math.max(0, k);
+    const rankingMaps = buildRankingMaps(results);
+    const totalWeight = Object.keys(rankingMaps).reduce((total, modelId) => total + getWeight(weights, modelId), 0);
+    if (totalWeight === 0) return [];
+
+    const fused: FusedResult[] = [];
+    for (const url of collectUrls(results)) {
+        let totalScore = 0;
+
+        for (const [modelId, rankMap] of Object.entries(rankingMaps)) {
+            const rank = rankMap.get(url);
+            if (rank !== undefined) totalScore += getWeight(weights, modelId) / (k + rank);
+        }
+
+        fused.push({ url, score: totalScore / totalWeight });
+    }
+
+    return sortByScore(fused);
+}
+
+// Min-max normalise each model's raw distances into [0, 1] similarity and take the weighted mean,
+// counting a model that missed a GIF as 0
+export function minMaxFusion(results: ModelResults, weights: Record<string, number>): FusedResult[] {
+    const normalised: Record<string, Map<string, number>> = {};
+
+    for (const [modelId, modelResults] of Object.entries(results)) {
+        const map = new Map<string, number>();
+        if (modelResults.length > 0) {
+            const distances = modelResults.map(([, distance]) => distance);
+            const min = Math.min(...distances);
+            const range = Math.max(...distances) - min;
+
+            for (const [url, distance] of modelResults) {
+                const similarity = range === 0 ? 1 : 1 - (distance - min) / range;
+                map.set(url, Math.max(map.get(url) ?? 0, similarity));
+            }
+        }
+        normalised[modelId] = map;
+    }
+
+    const totalWeight = Object.keys(normalised).reduce((total, modelId) => total + getWeight(weights, modelId), 0);
+    if (totalWeight === 0) return [];
+
+    const fused: FusedResult[] = [];
+    for (const url of collectUrls(results)) {
+        let totalScore = 0;
+
+        for (const [modelId, map] of Object.entries(normalised)) {
+            totalScore += getWeight(weights, modelId) * (map.get(url) ?? 0);
+        }
+
+        fused.push({ url, score: totalScore / totalWeight });
+    }
+
+    return sortByScore(fused);
+}
+
+export function fuseResults(strategy: FusionStrategy, results: ModelResults, weights: Record<string, number>, options: FusionOptions): FusedResult[] {
+    switch (strategy) {
+        case "minMax": return minMaxFusion(results, weights);
+        case "inverseRank": return inverseRankFusion(results, weights);
+        case "rrf":
+        default: return reciprocalRankFusion(results, weights, options.rrfK);
+    }
+}
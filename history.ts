@@ -0,0 +1,67 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { UserStore } from "@webpack/common";
+
+import { settings } from ".";
+
+// Per account search history (newest first) and pinned queries, kept in private settings
+
+const MAX_HISTORY = 50;
+
+function currentUserId(): string {
+    return UserStore.getCurrentUser().id;
+}
+
+// Nothing to recall while history is turned off
+export function getSearchHistory(): string[] {
+    if (!settings.store.search_history) return [];
+    return settings.store.searchHistory?.[currentUserId()] ?? [];
+}
+
+export function recordSearch(query: string) {
+    query = query.trim();
+    if (!query || !settings.store.search_history) return;
+
+    const history = [query, ...getSearchHistory().filter(entry => entry !== query)].slice(0, MAX_HISTORY);
+    settings.store.searchHistory = { ...settings.store.searchHistory, [currentUserId()]: history };
+}
+
+export function clearSearchHistory() {
+    const { [currentUserId()]: _, ...rest } = settings.store.searchHistory ?? {};
+    settings.store.searchHistory = rest;
+}
+
+// Turning history off forgets what every account searched, rather than only no longer adding to it
+export function forgetAllSearchHistory() {
+    settings.store.searchHistory = {};
+}
+
+export function getSavedQueries(): string[] {
+    return settings.store.savedQueries?.[currentUserId()] ?? [];
+}
+
+export function saveQuery(query: string) {
+    query = query.trim();
+    if (!query || getSavedQueries().includes(query)) return;
+    settings.store.savedQueries = { ...settings.store.savedQueries, [currentUserId()]: [...getSavedQueries(), query] };
+}
+
+export function removeSavedQuery(query: string) {
+    settings.store.savedQueries = { ...settings.store.savedQueries, [currentUserId()]: getSavedQueries().filter(entry => entry !== query) };
+}
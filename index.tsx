@@ -17,10 +17,39 @@
 */
 
 import { definePluginSettings } from "@api/Settings";
+import { disableStyle, enableStyle } from "@api/Styles";
 import ErrorBoundary from "@components/ErrorBoundary";
 import { Devs } from "@utils/constants";
+import { insertTextIntoChatInputBox } from "@utils/discord";
+import { chooseFile, saveFile } from "@utils/web";
 import definePlugin, { OptionType } from "@utils/types";
-import { useCallback, useEffect, useRef, useState, Forms, Flex, Text, Slider, UserStore, TextInput, Button } from "@webpack/common";
+import { useCallback, useEffect, useRef, useState, Forms, Flex, Text, Slider, UserStore, TextInput, Button, Clickable, ContextMenuApi, Menu, showToast, Toasts, Alerts } from "@webpack/common";
+
+import { ApiError, getApiClient, ModelUsage } from "./api";
+import { exportBackup, importBackup, isEncryptedBackup, KeyConflictChoice, KeyConflictError } from "./backup";
+import { favGifCommand } from "./command";
+import { openDuplicatesModal } from "./components/DuplicatesModal";
+import { openFailedGifsModal } from "./components/FailedGifsModal";
+import { GifPreview } from "./components/GifPreview";
+import { ModelComparison } from "./components/ModelComparison";
+import { ConnectionErrorKind, ConnectionTestResult, ensureApiHostAllowed, testConnection } from "./connection";
+import { getFavoriteGifs } from "./favorites";
+import { DEFAULT_RRF_K } from "./fusion";
+import { clearSearchHistory, forgetAllSearchHistory, getSavedQueries, getSearchHistory, recordSearch, removeSavedQuery, saveQuery } from "./history";
+import { clearPendingUpload, clearSyncState, getPendingUpload, getSyncState, hasSyncState, IndexBatch, migrateIndexState, PendingUpload, setPendingUpload, setSyncState, SyncState } from "./indexState";
+import { ACCOUNT_KEY_LENGTH, generateAccountKey, getAccountKey, revokePendingKey, rotateAccountKey } from "./keys";
+import { applyLearnedWeights, getPicks, learnWeights, MIN_PICKS_TO_TUNE, recordPick, resetLearning, SearchPick } from "./learning";
+import { clearLocalEmbeddings, getLocalEmbeddings, markEmbeddingsStale, ModelEmbeddings, syncEmbeddings } from "./localEmbeddings";
+import { DEFAULT_ALLOWED_HOSTS, getMediaKind, MEDIA_KINDS, MediaKind } from "./media";
+import type { AllowHostResult } from "./native";
+import { applyWeightPreset, deleteWeightPreset, getActivePreset, getWeightPresets, saveWeightPreset } from "./presets";
+import { getFormatFilter, withFormatFilter } from "./query";
+import { setHighlightedResult, setResultDecorations, watchResultTiles } from "./resultDecorations";
+import { searchFavorites, SearchOutcome } from "./search";
+import { invalidateSearchCache, noteIndexCounts } from "./searchCache";
+import { isTerminal, refreshStatus, subscribeStatus, useStatusFeed } from "./statusFeed";
+import style from "./styles.css?managed";
+import { describeSkipReason, getIndexableNames, IndexableGif, partitionFavorites, setLegacyHostsOnly } from "./validation";
 
 interface SearchBarComponentProps {
     ref?: React.RefObject<any>;
@@ -36,7 +65,13 @@ interface SearchBarComponentProps {
 type TSearchBarComponent =
     React.FC<SearchBarComponentProps>;
 
-interface Gif {
+// Gif.format values used by Discord
+export const enum GifFormat {
+    IMAGE = 1,
+    VIDEO = 2
+}
+
+export interface Gif {
     format: number;
     src: string;
     width: number;
@@ -54,188 +89,528 @@ interface Instance {
         favCopy: Gif[],
 
         favorites: Gif[],
+
+        // Discord's handler for clicking a GIF, sends it to the current channel
+        onSelectGIF?: (gif: Gif) => void,
     },
     forceUpdate: () => void;
 }
 
+interface UploadProgress {
+    status: "idle" | "uploading" | "retrying" | "failed" | "rejected" | "done";
+    done: number;
+    total: number;
+    // GIFs the server refused, which the rest of the upload went ahead without
+    rejected?: number;
+    error?: string;
+}
+
 // Track indexing state
-let lastUserId: string | null = null;
-let lastIndexedFavorites: string[] = [];
-let indexedModels: Set<string> = new Set();
 let pendingIndexRequest = false;
-let lastRankingWeights: Record<string, number> = {};
+// Set while the server data is being deleted, so no sync can put it back in the meantime
+let deletingData = false;
+// Whether the server can delete an account's data at all, checked on start
+let serverCanDelete = true;
 
 function getModelWeights(): Record<string, number> {
     return settings.store.modelWeights ?? {};
 }
 
-// Function to send index request
-async function sendIndexRequest(favorites: Gif[]) {
-    const s = settings.store.accountKeys ??= {};
-    const id = UserStore.getCurrentUser().id;
-    if (pendingIndexRequest || s[id]?.length !== 32) {
-        return;
+// Work out which favourites were added or removed since the last successful sync
+function diffFavorites(state: SyncState, validGifs: IndexableGif[]) {
+    const synced = new Set(state.favorites);
+    const current = new Set(validGifs.map(gif => gif.name));
+
+    return {
+        added: validGifs.filter(gif => !synced.has(gif.name)),
+        removed: state.favorites.filter(name => !current.has(name))
+    };
+}
+
+// Upload the index change in bounded batches so large favourites lists don't go up as one huge request
+const BATCH_SIZE = 250;
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 1000;
+// How long to wait after a failed upload before resuming it on the next render
+const RESUME_COOLDOWN = 60 * 1000;
+// Statuses a server answers a batch with when it refuses some of its entries rather than the request as a whole
+const ENTRY_REJECTION_STATUSES = [400, 413, 422];
+
+let lastUploadFailure = 0;
+// Aborts the running upload, e.g. when its data is being deleted
+let uploadController: AbortController | null = null;
+// Settles once the running sync has stopped, however it ended
+let runningUpload: Promise<void> | null = null;
+let uploadProgress: UploadProgress = { status: "idle", done: 0, total: 0 };
+const uploadProgressListeners = new Set<(progress: UploadProgress) => void>();
+
+function setUploadProgress(progress: UploadProgress) {
+    uploadProgress = progress;
+    uploadProgressListeners.forEach(listener => listener(progress));
+}
+
+function countBatchGifs(batches: IndexBatch[]): number {
+    return batches.reduce((total, batch) => total + batch.names.length, 0);
+}
+
+function toBatches(method: IndexBatch["method"], gifs: { name: string; src?: string; gif?: Gif; }[], models: string[]): IndexBatch[] {
+    const batches: IndexBatch[] = [];
+    for (let i = 0; i < gifs.length; i += BATCH_SIZE) {
+        const chunk = gifs.slice(i, i + BATCH_SIZE);
+        batches.push({
+            method,
+            names: chunk.map(gif => gif.name),
+            media_srcs: method === "POST" ? chunk.map(gif => gif.src!) : undefined,
+            media_types: method === "POST" ? chunk.map(gif => getMediaKind(gif.gif!)) : undefined,
+            models
+        });
     }
+    return batches;
+}
 
-    // Filter and validate gifs
-    const validGifs: { name: string; src: string; }[] = [];
+// Resolves after the delay, or rejects as soon as the signal aborts so stopping an upload doesn't wait out its backoff
+function sleep(delay: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        signal?.throwIfAborted();
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(signal!.reason);
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, delay);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
 
-    for (const gif of favorites) {
-        const name = gif.url;
+function sliceBatch(batch: IndexBatch, start: number, end?: number): IndexBatch {
+    return {
+        ...batch,
+        names: batch.names.slice(start, end),
+        media_srcs: batch.media_srcs?.slice(start, end),
+        media_types: batch.media_types?.slice(start, end)
+    };
+}
 
-        // Check name length
-        if (name.length > 512) {
-            console.log(`skipping ${name} as ${name.length} > 512 characters`);
-            continue;
+// Send a single batch, retrying with exponential backoff on network errors and 5xx/408/429 responses
+async function sendIndexBatch(key: string, batch: IndexBatch, signal?: AbortSignal) {
+    const client = getApiClient();
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            if (batch.method === "POST") {
+                // Batches persisted by older versions have no media types, the server then works them out itself
+                const mediaTypes = batch.media_types && await client.supports("media-types") ? batch.media_types : undefined;
+                await client.index(key, { names: batch.names, media_srcs: batch.media_srcs!, media_types: mediaTypes, models: batch.models }, signal);
+            } else {
+                await client.unindex(key, { names: batch.names, models: batch.models }, signal);
+            }
+            return;
+        } catch (error: any) {
+            const retryable = !signal?.aborted && (!(error instanceof ApiError) || error.retryable);
+            if (!retryable || attempt >= MAX_ATTEMPTS) throw error;
+
+            const delay = BASE_RETRY_DELAY * 2 ** (attempt - 1);
+            console.log(`index batch failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${delay}ms`, error);
+            setUploadProgress({ ...uploadProgress, status: "retrying", error: error?.message ?? String(error) });
+            await sleep(delay, signal);
         }
+    }
+}
 
-        // Check src length
-        if (gif.src.length > 2000) {
-            console.log(`skipping ${name} as ${gif.src.length} > 2000 characters`);
-            continue;
-        }
+// Run the remaining batches of an upload, persisting progress after each one
+async function runUpload(key: string, upload: PendingUpload, signal?: AbortSignal) {
+    const total = countBatchGifs(upload.batches);
+    let done = countBatchGifs(upload.batches.slice(0, upload.completed));
+    let rejection: string | undefined;
+    setUploadProgress({ status: "uploading", done, total, rejected: upload.rejected?.length });
+
+    // The key can be replaced mid-upload, by a rotation or a backup import, and nothing sent under the old one
+    // may be recorded as synced for the new one
+    const checkKey = () => {
+        if (getAccountKey(upload.userId) !== key) throw new DOMException("The account key was replaced during the upload", "AbortError");
+    };
 
-        // Check src protocol and extract domain
-        let domainOffset: number;
-        if (gif.src.startsWith("http://")) {
-            domainOffset = 7;
-        } else if (gif.src.startsWith("https://")) {
-            domainOffset = 8;
-        } else {
-            console.log(`skipping ${name} as invalid src: ${gif.src}`);
-            continue;
-        }
+    for (let i = upload.completed; i < upload.batches.length; i++) {
+        const batch = upload.batches[i];
+        try {
+            await sendIndexBatch(key, batch, signal);
+        } catch (error: any) {
+            if (!(error instanceof ApiError) || error.retryable) throw error;
+            if (!ENTRY_REJECTION_STATUSES.includes(error.status!)) {
+                // Sending it again won't go any differently, the next sync plans a new upload from the favourites instead
+                clearPendingUpload(upload.userId);
+                throw error;
+            }
 
-        const pathIdx = gif.src.indexOf('/', domainOffset);
-        const endIdx = pathIdx === -1 ? gif.src.length : pathIdx;
-        const domain = gif.src.substring(domainOffset, endIdx);
+            checkKey();
+            if (batch.names.length > 1) {
+                // Halve the batch until the entries the server refuses are on their own, so the rest still get indexed
+                const half = Math.ceil(batch.names.length / 2);
+                upload = { ...upload, batches: [...upload.batches.slice(0, i), sliceBatch(batch, 0, half), sliceBatch(batch, half), ...upload.batches.slice(i + 1)] };
+                setPendingUpload(upload);
+                i--;
+                continue;
+            }
 
-        // Check domain validity
-        if (!domain || domain.length > 256 || (!domain.endsWith(".discordapp.net") && domain !== "media.tenor.co")) {
-            console.log(`skipping ${name} as invalid domain: ${domain}`);
-            continue;
+            // Like a GIF that failed to download, it counts as synced so it isn't sent again on every sync
+            console.warn(`The server refused ${batch.names[0]}:`, error);
+            rejection = error.message;
+            upload = { ...upload, rejected: [...upload.rejected ?? [], batch.names[0]] };
         }
+        checkKey();
 
-        validGifs.push({ name, src: gif.src });
+        done += batch.names.length;
+        upload = { ...upload, completed: i + 1 };
+        setPendingUpload(upload);
+        setUploadProgress({ status: "uploading", done, total, rejected: upload.rejected?.length });
     }
 
-    // Only proceed if we have valid gifs
-    if (validGifs.length === 0) {
-        console.log("No valid gifs to index");
+    // Update tracking state on success
+    checkKey();
+    setSyncState(upload.target);
+    clearPendingUpload(upload.userId);
+    setUploadProgress({ status: "done", done, total, rejected: upload.rejected?.length, error: rejection });
+    invalidateSearchCache();
+    markEmbeddingsStale();
+    refreshStatus();
+
+    // Everything is under the new key now, so the key it replaced can go
+    revokePendingKey(upload.userId).catch(e => console.error("Error revoking old account key:", e));
+}
+
+// An aborted upload isn't a failure, it stays pending and resumes the next time its account syncs.
+// One the server refused was dropped, the next sync after the cooldown plans it again.
+function handleUploadError(error: any) {
+    if (error?.name === "AbortError") {
+        setUploadProgress({ status: "idle", done: 0, total: 0 });
         return;
     }
+    console.error('Error indexing favorites:', error);
+    lastUploadFailure = Date.now();
+    const rejected = error instanceof ApiError && !error.retryable;
+    setUploadProgress({ ...uploadProgress, status: rejected ? "rejected" : "failed", error: error?.message ?? String(error) });
+}
 
-    const names = validGifs.map(gif => gif.name);
-    const srcs = validGifs.map(gif => gif.src);
+// Re-submit GIFs for indexing with the given models, e.g. ones that failed to download or process
+export async function requeueGifs(gifs: IndexableGif[], models: string[]) {
+    const key = getAccountKey(UserStore.getCurrentUser().id);
+    if (!key) throw new Error("No valid account key found");
 
-    // Get models with ranking weight > 0 from private settings.modelWeights
-    const models: string[] = [];
-    const modelWeights: Record<string, number> = getModelWeights();
-    for (const [name, weight] of Object.entries(modelWeights)) {
-        if (weight > 0) models.push(name);
+    for (const batch of toBatches("POST", gifs, models)) {
+        await sendIndexBatch(key, batch);
     }
+    invalidateSearchCache();
+    refreshStatus();
+}
 
-    // Only send if we have models with weight > 0
-    if (models.length === 0) {
+// Function to send index request
+export async function sendIndexRequest(favorites: Gif[]) {
+    const id = UserStore.getCurrentUser().id;
+    const key = getAccountKey(id);
+    // Called on every render, so back off for a while after a failure instead of retrying straight away
+    if (pendingIndexRequest || deletingData || !key || Date.now() - lastUploadFailure < RESUME_COOLDOWN) {
         return;
     }
 
-    const requestData = {
-        names: names,
-        media_srcs: srcs,
-        models: models
-    };
-
-    try {
-        pendingIndexRequest = true;
-        const response = await fetch(`${settings.store.api_url}/${s[id]}/index`, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify(requestData)
-        });
-        if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
+    // Claimed before anything is awaited, so a render in the meantime can't plan a second upload
+    pendingIndexRequest = true;
+    const controller = uploadController = new AbortController();
+    runningUpload = (async () => {
+        try {
+            await syncFavorites(key, id, favorites, controller.signal);
+        } catch (error: any) {
+            handleUploadError(error);
+        } finally {
+            pendingIndexRequest = false;
+            uploadController = null;
+            runningUpload = null;
         }
+    })();
+    await runningUpload;
+}
 
-        // Update tracking state on success
-        lastIndexedFavorites = [...names];
-        lastUserId = id;
-        models.forEach(model => indexedModels.add(model));
-        // copy current weights into lastRankingWeights
-        lastRankingWeights = { ...modelWeights };
+// Stop the running upload and wait until it has, what it hadn't sent yet stays pending
+export async function stopUpload() {
+    uploadController?.abort();
+    await runningUpload;
+}
 
-        console.log(`Successfully indexed ${names.length} valid favorites`);
-    } catch (error) {
-        console.error('Error indexing favorites:', error);
-    } finally {
-        pendingIndexRequest = false;
+// Resume the account's unfinished upload, or work out and run a new one from the favourites
+async function syncFavorites(key: string, id: string, favorites: Gif[], signal: AbortSignal) {
+    // Resume an unfinished upload before looking for new changes
+    const pending = getPendingUpload(id);
+    if (pending) {
+        console.log(`Resuming index upload at batch ${pending.completed + 1}/${pending.batches.length}`);
+        await runUpload(key, pending, signal);
+        return;
     }
-}
 
-// Function to get valid gif URLs (applying the same filters as indexing)
-function getValidGifUrls(favorites: Gif[]): string[] {
-    const validUrls: string[] = [];
+    // Filter and validate gifs, against the hosts this server takes
+    setLegacyHostsOnly(!(await getApiClient().getServerInfo()).capabilities.includes("media-types"));
+    signal.throwIfAborted();
+    const { valid: validGifs, skipped } = partitionFavorites(favorites);
+    for (const { gif, reason } of skipped) {
+        console.log(`skipping ${gif.url}: ${describeSkipReason(reason)}`);
+    }
 
-    for (const gif of favorites) {
-        const name = gif.url;
+    // Get models with ranking weight > 0 from private settings.modelWeights
+    const models: string[] = [];
+    const modelWeights: Record<string, number> = getModelWeights();
+    for (const [name, weight] of Object.entries(modelWeights)) {
+        if (weight > 0) models.push(name);
+    }
 
-        // Check name length
-        if (name.length > 512) continue;
+    const state = getSyncState(id);
+    const { added, removed } = diffFavorites(state, validGifs);
 
-        // Check src length
-        if (gif.src.length > 2000) continue;
+    // With every weight at 0 nothing is uploaded, but removed favourites still have to go from the models they were synced to
+    if (models.length === 0 && removed.length === 0) {
+        return;
+    }
 
-        // Check src protocol and extract domain
-        let domainOffset: number;
-        if (gif.src.startsWith("http://")) {
-            domainOffset = 7;
-        } else if (gif.src.startsWith("https://")) {
-            domainOffset = 8;
-        } else {
-            continue;
-        }
+    // Models that have never been synced need the whole list, the rest only need what was added
+    const syncedModels = new Set(state.models);
+    const newModels = models.filter(model => !syncedModels.has(model));
+    const oldModels = models.filter(model => syncedModels.has(model));
 
-        const pathIdx = gif.src.indexOf('/', domainOffset);
-        const endIdx = pathIdx === -1 ? gif.src.length : pathIdx;
-        const domain = gif.src.substring(domainOffset, endIdx);
+    if (added.length === 0 && removed.length === 0 && newModels.length === 0) {
+        return;
+    }
 
-        // Check domain validity
-        if (!domain || domain.length > 256 || (!domain.endsWith(".discordapp.net") && domain !== "media.tenor.co")) {
-            continue;
+    const batches: IndexBatch[] = [];
+    if (newModels.length > 0) batches.push(...toBatches("POST", validGifs, newModels));
+    if (oldModels.length > 0) batches.push(...toBatches("POST", added, oldModels));
+    // Drop removed favourites from every model they were synced to, if the server can remove entries.
+    // Not knowing whether it can throws, rather than recording them as removed when they were never deleted.
+    if (state.models.length > 0 && removed.length > 0 && (await getApiClient().getServerInfo()).capabilities.includes("unindex")) {
+        batches.push(...toBatches("DELETE", removed.map(name => ({ name })), state.models));
+    }
+    signal.throwIfAborted();
+
+    const upload: PendingUpload = {
+        userId: id,
+        batches,
+        completed: 0,
+        target: {
+            userId: id,
+            // Added favourites only count as synced once some model has them
+            favorites: models.length > 0 ? validGifs.map(gif => gif.name) : state.favorites.filter(name => !removed.includes(name)),
+            models: [...new Set([...state.models, ...models])]
         }
+    };
 
-        validUrls.push(name);
-    }
+    setPendingUpload(upload);
+    await runUpload(key, upload, signal);
 
-    return validUrls;
+    console.log(`Successfully synced favorites: ${added.length} added, ${removed.length} removed, ${newModels.length} new models`);
 }
 
 // Function to check if indexing is needed
 function shouldIndex(favorites: Gif[]): boolean {
-    if (lastUserId !== UserStore.getCurrentUser().id) return true;
+    if (!settings.store.auto_index) return false;
+
+    const id = UserStore.getCurrentUser().id;
+    if (getPendingUpload(id)) return true;
 
-    const currentValidUrls = getValidGifUrls(favorites);
+    const state = getSyncState(id);
 
-    // Check if valid favorites changed
-    if (currentValidUrls.length !== lastIndexedFavorites.length ||
-        !currentValidUrls.every((url, index) => url === lastIndexedFavorites[index])) {
+    // Check if valid favorites were added or removed (order doesn't matter to the server)
+    const currentValidUrls = getIndexableNames(favorites);
+    const synced = new Set(state.favorites);
+    if (currentValidUrls.length !== synced.size || !currentValidUrls.every(url => synced.has(url))) {
         return true;
     }
 
     const modelWeights: Record<string, number> = ((settings.store as any).modelWeights) ?? {};
+    const indexedModels = new Set(state.models);
 
-    // If a model gained weight from 0 and hasn't been indexed, we should index
+    // A model with weight that hasn't been indexed for this account yet needs the whole list
     for (const [model, weight] of Object.entries(modelWeights)) {
-        const last = lastRankingWeights[model] ?? 0;
-        if (last === 0 && weight > 0 && !indexedModels.has(model)) return true;
         if (weight > 0 && !indexedModels.has(model)) return true;
     }
 
     return false;
 }
 
+// Delete the current account's index on the server, for the given models or all of them,
+// and reset the local tracking state to match so nothing claims to be synced that isn't
+export async function deleteServerData(models?: string[]) {
+    const id = UserStore.getCurrentUser().id;
+    const key = getAccountKey(id);
+    if (!key) throw new Error("No valid account key found");
+
+    // Stop the running upload and drop what it still had to send, otherwise it would put the data straight back
+    deletingData = true;
+    try {
+        await stopUpload();
+        // An unfinished upload was planned against the old state, the next sync works out a new one
+        clearPendingUpload(id);
+
+        const client = getApiClient();
+        if (await client.supports("delete-data")) {
+            await client.deleteData(key, models);
+        } else if (!models && await client.supports("revoke")) {
+            // Revoking deletes everything under the key, so carry on with a fresh one
+            await client.revoke(key);
+            settings.store.accountKeys = { ...settings.store.accountKeys, [id]: generateAccountKey() };
+        } else {
+            throw new Error("The server doesn't support deleting data");
+        }
+    } finally {
+        deletingData = false;
+    }
+
+    if (models) {
+        // Zero the weights so the models aren't indexed again the next time the picker opens
+        const weights = { ...getModelWeights() };
+        models.forEach(model => weights[model] = 0);
+        settings.store.modelWeights = weights;
+
+        if (hasSyncState(id)) {
+            const state = getSyncState(id);
+            setSyncState({ ...state, models: state.models.filter(model => !models.includes(model)) });
+        }
+    } else {
+        clearSyncState(id);
+    }
+
+    await clearLocalEmbeddings(id, models);
+
+    lastUploadFailure = 0;
+    setUploadProgress({ status: "idle", done: 0, total: 0 });
+    invalidateSearchCache();
+    refreshStatus();
+}
+
+// The account whose index state was last checked, a reconnect of the same account doesn't need another check
+let checkedUserId: string | undefined;
+
+// Check the current account's index state, on start and whenever Discord switches to another account.
+// Its favourites are only uploaded once the picker opens, until then Discord may still have the previous account's.
+function checkCurrentAccount() {
+    const id = UserStore.getCurrentUser()?.id;
+    if (!id || id === checkedUserId) return;
+    const switched = checkedUserId !== undefined;
+    checkedUserId = id;
+
+    if (switched) {
+        // The previous account's upload is persisted under its id, so it resumes when that account is back
+        uploadController?.abort();
+        lastUploadFailure = 0;
+        setUploadProgress({ status: "idle", done: 0, total: 0 });
+    }
+
+    const s = settings.store.accountKeys ??= {};
+    s[id] ??= generateAccountKey();
+
+    // Finish a key rotation whose re-index completed but whose old key couldn't be revoked at the time
+    if (settings.store.pendingRevocations?.[id] && !getPendingUpload(id) && hasSyncState(id)) {
+        revokePendingKey(id).catch(e => console.error("Error revoking old account key:", e));
+    }
+
+    refreshStatus();
+}
+
+// Server connection test component
+function ConnectionTestComponent() {
+    const [testing, setTesting] = useState(false);
+    const [result, setResult] = useState<ConnectionTestResult | null>(null);
+    const [allowResult, setAllowResult] = useState<AllowHostResult | null>(null);
+
+    const runTest = useCallback(async () => {
+        setTesting(true);
+        setAllowResult(null);
+        try {
+            setResult(await testConnection());
+        } finally {
+            setTesting(false);
+        }
+    }, []);
+
+    const allowHost = useCallback(async () => {
+        setAllowResult(await ensureApiHostAllowed());
+    }, []);
+
+    const getErrorLabel = (kind: ConnectionErrorKind): string => {
+        switch (kind) {
+            case "invalid-url": return "Invalid URL";
+            case "csp": return "Blocked by CSP";
+            case "tls": return "TLS error";
+            case "network": return "Network error";
+            case "timeout": return "Timed out";
+            case "http": return "HTTP error";
+            case "response": return "Invalid response";
+        }
+    };
+
+    const getAllowMessage = (allowed: AllowHostResult): string => {
+        switch (allowed) {
+            case "allowed": return "Server allowed, reload Discord (Ctrl+R) for it to take effect.";
+            case "already-allowed": return "This server is already allowed, try reloading Discord (Ctrl+R).";
+            case "cancelled": return "The server was not allowed.";
+            case "invalid": return "The API URL is not valid.";
+        }
+    };
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Server Connection</Forms.FormTitle>
+            <Forms.FormText>
+                Check that the CLIP API URL above can be reached from Discord.
+            </Forms.FormText>
+
+            <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", marginTop: 12 }}>
+                <Button
+                    onClick={runTest}
+                    disabled={testing}
+                    size={Button.Sizes.SMALL}
+                    look={Button.Looks.OUTLINED}
+                    color={Button.Colors.PRIMARY}
+                >
+                    {testing ? "Testing..." : "Test connection"}
+                </Button>
+                {result?.ok === false && result.kind === "csp" && (
+                    <Button
+                        onClick={allowHost}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Allow server
+                    </Button>
+                )}
+                {(allowResult === "allowed" || allowResult === "already-allowed") && (
+                    <Button
+                        onClick={() => location.reload()}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Reload
+                    </Button>
+                )}
+            </Flex>
+
+            {result && (
+                <Text variant={"text-sm/normal"} style={{ marginTop: 8, color: result.ok ? "var(--status-positive)" : "var(--status-danger)" }}>
+                    {result.ok
+                        ? `Connected, ${result.models.length} models available`
+                        : `${getErrorLabel(result.kind)}: ${result.message}`}
+                </Text>
+            )}
+            {allowResult && (
+                <Text variant={"text-xs/normal"} style={{ marginTop: 4, color: "var(--text-muted)" }}>
+                    {getAllowMessage(allowResult)}
+                </Text>
+            )}
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
 // Model weights settings component
 function ModelWeightsComponent() {
     const [models, setModels] = useState<Record<string, number>>(() => getModelWeights());
@@ -245,9 +620,7 @@ function ModelWeightsComponent() {
         if (Object.keys(models).length === 0) {
             (async () => {
                 try {
-                    const response = await fetch(`${settings.store.api_url}/models`);
-                    if (!response.ok) return;
-                    const remote = await response.json() as Record<string, number>;
+                    const remote = await getApiClient().getModels();
                     const combined = { ...remote, ...getModelWeights() };
                     setModels(combined);
                     (settings.store as any).modelWeights = combined;
@@ -300,58 +673,86 @@ function ModelWeightsComponent() {
     );
 }
 
-// Status counts component
-function StatusCountsComponent() {
-    const [statusData, setStatusData] = useState<{
-        counts: Record<string, [number, number, number, number]>;
-        status: string;
-    } | null>(null);
-    const [error, setError] = useState<string | null>(null);
-    const [loading, setLoading] = useState(true);
-
-    useEffect(() => {
-        let intervalId: NodeJS.Timeout;
-
-        const fetchStatusCounts = async () => {
-            try {
-                const s = settings.store.accountKeys ??= {};
-                const id = UserStore.getCurrentUser().id;
+// Named weight presets component
+function WeightPresetsComponent() {
+    const [presets, setPresets] = useState(getWeightPresets);
+    const [name, setName] = useState("");
+    const [message, setMessage] = useState<{ text: string; error: boolean; } | null>(null);
+
+    const save = () => {
+        const trimmed = name.trim();
+        saveWeightPreset(trimmed);
+        setPresets(getWeightPresets());
+        setName("");
+        setMessage({ text: `Current weights saved as "${trimmed}".`, error: false });
+    };
 
-                if (!s[id] || s[id].length !== 32) {
-                    setError("No valid account key found");
-                    setLoading(false);
-                    return;
-                }
+    const apply = (preset: string) => {
+        setMessage(applyWeightPreset(preset)
+            ? { text: `Switched to the "${preset}" weights, reopen settings to see them on the sliders.`, error: false }
+            : { text: `There's no preset called "${preset}".`, error: true });
+    };
 
-                const response = await fetch(`${settings.store.api_url}/${s[id]}/statuscounts`);
+    const activePreset = getActivePreset();
 
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Weight Presets</Forms.FormTitle>
+            <Forms.FormText>
+                Save the current weights under a name, e.g. "accurate" or "text-heavy", to switch between them here or from the comparison view in the search bar.
+            </Forms.FormText>
 
-                const data = await response.json();
-                setStatusData(data);
-                setError(null);
-            } catch (err: any) {
-                console.error('Error fetching status counts:', err);
-                setError(err.message || 'Failed to fetch status counts');
-            } finally {
-                setLoading(false);
-            }
-        };
+            <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", marginTop: 8, alignItems: "center" }}>
+                <div style={{ flex: 1 }}>
+                    <TextInput value={name} onChange={setName} placeholder="Preset name" />
+                </div>
+                <Button onClick={save} disabled={!name.trim()} size={Button.Sizes.SMALL}>
+                    {name.trim() in presets ? "Overwrite" : "Save"}
+                </Button>
+            </Flex>
+
+            {Object.keys(presets).map(preset => (
+                <Flex key={preset} direction={Flex.Direction.HORIZONTAL} style={{ justifyContent: "space-between", alignItems: "center", marginTop: 8 }}>
+                    <Text variant={"text-sm/normal"}>
+                        {preset}{preset === activePreset && <span style={{ color: "var(--text-muted)" }}> (in use)</span>}
+                    </Text>
+                    <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", flexGrow: 0 }}>
+                        <Button onClick={() => apply(preset)} size={Button.Sizes.SMALL}>
+                            Apply
+                        </Button>
+                        <Button
+                            onClick={() => {
+                                deleteWeightPreset(preset);
+                                setPresets(getWeightPresets());
+                            }}
+                            size={Button.Sizes.SMALL}
+                            look={Button.Looks.OUTLINED}
+                            color={Button.Colors.RED}
+                        >
+                            Delete
+                        </Button>
+                    </Flex>
+                </Flex>
+            ))}
+            {message && (
+                <Text variant={"text-xs/normal"} style={{ color: message.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                    {message.text}
+                </Text>
+            )}
 
-        // Initial fetch
-        fetchStatusCounts();
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
 
-        // Set up polling every 5 seconds
-        intervalId = setInterval(fetchStatusCounts, 5000);
+// Status counts component
+function StatusCountsComponent() {
+    const { data: statusData, error, loading } = useStatusFeed();
+    // null until the server's capabilities are known
+    const [canInspectFailures, setCanInspectFailures] = useState<boolean | null>(null);
 
-        // Cleanup interval on unmount
-        return () => {
-            if (intervalId) {
-                clearInterval(intervalId);
-            }
-        };
+    useEffect(() => {
+        getApiClient().supports("failures").then(setCanInspectFailures);
     }, []);
 
     const getStatusLabel = (index: number): string => {
@@ -378,7 +779,7 @@ function StatusCountsComponent() {
         <Forms.FormSection>
             <Forms.FormTitle tag="h3">GIF Processing Status</Forms.FormTitle>
             <Forms.FormText>
-                Real-time status of your GIF processing for each model.
+                Live status of your GIF processing for each model.
             </Forms.FormText>
 
             <div style={{ marginTop: 12 }}>
@@ -422,6 +823,22 @@ function StatusCountsComponent() {
                                         </div>
                                     ))}
                                 </Flex>
+                                {canInspectFailures && counts[0] > 0 && (
+                                    <Button
+                                        onClick={() => openFailedGifsModal(modelName)}
+                                        size={Button.Sizes.SMALL}
+                                        look={Button.Looks.OUTLINED}
+                                        color={Button.Colors.RED}
+                                        style={{ marginTop: 8 }}
+                                    >
+                                        View failed GIFs
+                                    </Button>
+                                )}
+                                {canInspectFailures === false && counts[0] > 0 && (
+                                    <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)", marginTop: 8 }}>
+                                        This server doesn't list which GIFs failed, so they can't be inspected or retried here
+                                    </Text>
+                                )}
                             </div>
                         ))}
                     </div>
@@ -439,6 +856,120 @@ function StatusCountsComponent() {
     );
 }
 
+// Index upload progress component
+function UploadProgressComponent() {
+    const [progress, setProgress] = useState(uploadProgress);
+
+    useEffect(() => {
+        uploadProgressListeners.add(setProgress);
+        return () => void uploadProgressListeners.delete(setProgress);
+    }, []);
+
+    // An upload left over from a previous session hasn't reported any progress yet
+    const pending = getPendingUpload(UserStore.getCurrentUser().id);
+    const done = progress.status === "idle" && pending ? countBatchGifs(pending.batches.slice(0, pending.completed)) : progress.done;
+    const total = progress.status === "idle" && pending ? countBatchGifs(pending.batches) : progress.total;
+    const percent = total > 0 ? Math.round(done / total * 100) : 0;
+
+    const getProgressLabel = (): string => {
+        switch (progress.status) {
+            case "uploading": return `Uploading ${done} / ${total} GIFs`;
+            case "retrying": return `Retrying after error (${done} / ${total} GIFs uploaded)`;
+            case "failed": return `Upload paused at ${done} / ${total} GIFs, it will resume automatically`;
+            case "rejected": return `The server refused the upload at ${done} / ${total} GIFs, it will be planned again from your favourites in a minute`;
+            case "done": return progress.rejected
+                ? `Uploaded ${total - progress.rejected} GIFs, the server refused ${progress.rejected}`
+                : `Uploaded ${total} GIFs`;
+            default: return pending ? `Upload paused at ${done} / ${total} GIFs, it will resume when you open your favourites` : "Favourites are in sync";
+        }
+    };
+
+    const getProgressColor = (): string => {
+        switch (progress.status) {
+            case "retrying": return "var(--status-warning)";
+            case "failed":
+            case "rejected": return "var(--status-danger)";
+            case "done": return progress.rejected ? "var(--status-warning)" : "var(--status-positive)";
+            default: return "var(--brand-500)";
+        }
+    };
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Index Upload</Forms.FormTitle>
+            <Forms.FormText>
+                Progress of uploading your favourites to the CLIP API.
+            </Forms.FormText>
+
+            <div style={{ marginTop: 12, padding: 12, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                <div style={{ height: 8, borderRadius: 4, backgroundColor: "var(--background-modifier-accent)", overflow: "hidden" }}>
+                    <div style={{ width: `${percent}%`, height: "100%", backgroundColor: getProgressColor() }} />
+                </div>
+                <Text variant={"text-sm/normal"} style={{ marginTop: 8, color: "var(--text-muted)" }}>
+                    {getProgressLabel()}
+                </Text>
+                {progress.error && (progress.status !== "done" || !!progress.rejected) && (
+                    <Text variant={"text-xs/normal"} style={{ marginTop: 4, color: "var(--status-danger)" }}>
+                        Error: {progress.error}
+                    </Text>
+                )}
+            </div>
+
+            <Forms.FormDivider style={{ marginTop: 6 }} />
+        </Forms.FormSection>
+    );
+}
+
+// Skipped GIFs report component
+function SkippedGifsComponent() {
+    const [skipped] = useState(() => partitionFavorites(getFavoriteGifs()).skipped);
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Skipped GIFs</Forms.FormTitle>
+            <Forms.FormText>
+                {skipped.length === 0
+                    ? "All of your favourites can be indexed."
+                    : `${skipped.length} of your favourites can never be indexed, so they will only be found by keyword search.`}
+            </Forms.FormText>
+
+            {skipped.length > 0 && (
+                <div style={{ marginTop: 12 }}>
+                    <Button
+                        onClick={() => setExpanded(!expanded)}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        {expanded ? "Hide" : "Show"} skipped GIFs
+                    </Button>
+
+                    {expanded && (
+                        <div style={{ marginTop: 8, maxHeight: 320, overflowY: "auto" }}>
+                            {skipped.map(({ gif, reason }) => (
+                                <Flex key={gif.url} direction={Flex.Direction.HORIZONTAL} style={{ alignItems: "center", gap: "0.75rem", padding: 8, marginBottom: 4, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                                    <GifPreview gif={gif} size={48} />
+                                    <div style={{ minWidth: 0 }}>
+                                        <Text variant={"text-sm/normal"} style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                                            {gif.url}
+                                        </Text>
+                                        <Text variant={"text-xs/normal"} style={{ color: "var(--status-warning)" }}>
+                                            {describeSkipReason(reason)}
+                                        </Text>
+                                    </div>
+                                </Flex>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
 // User key editor component
 function UserKeyComponent() {
     const [userKey, setUserKey] = useState(() => {
@@ -455,14 +986,42 @@ function UserKeyComponent() {
         setUserKey(newKey);
     }, []);
 
-    const generateNewKey = useCallback(() => {
-        const charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-        let key = "";
-        for (let i = 0; i < 32; i++) {
-            key += charset.charAt(Math.floor(Math.random() * charset.length));
-        }
-        saveUserKey(key);
-    }, [saveUserKey]);
+    const [rotating, setRotating] = useState(false);
+    const [rotationMessage, setRotationMessage] = useState<{ text: string; error: boolean; } | null>(null);
+
+    const rotateKey = useCallback(() => {
+        Alerts.show({
+            title: "Rotate account key?",
+            body: "A new key will be generated and your GIF index moved to it, or rebuilt under it if the server can't move it and automatic indexing is on. The old key will then stop working, if the server can revoke keys.",
+            confirmText: "Rotate",
+            cancelText: "Cancel",
+            onConfirm: async () => {
+                setRotating(true);
+                setRotationMessage(null);
+                try {
+                    const { migrated, reindexing, revocable } = await rotateAccountKey();
+                    const upload = reindexing
+                        ? "Your favourites are being re-indexed under it"
+                        : "Automatic indexing is off, so your favourites won't be indexed under it until you turn it back on";
+                    setRotationMessage({
+                        text: migrated
+                            ? "Key rotated and your index was moved to it."
+                            : revocable
+                                ? `Key rotated. ${upload}, and the old key will be revoked once that's done.`
+                                : `Key rotated. ${upload}. This server can't revoke keys, so the old key still works and still holds your previous index.`,
+                        error: !migrated && !revocable
+                    });
+                } catch (err: any) {
+                    console.error("Error rotating account key:", err);
+                    setRotationMessage({ text: `Failed to rotate key: ${err.message || err}`, error: true });
+                } finally {
+                    const s = settings.store.accountKeys ??= {};
+                    setUserKey(s[UserStore.getCurrentUser().id] || "");
+                    setRotating(false);
+                }
+            }
+        });
+    }, []);
 
     const copyToClipboard = useCallback(() => {
         navigator.clipboard.writeText(userKey);
@@ -474,7 +1033,7 @@ function UserKeyComponent() {
         <Forms.FormSection>
             <Forms.FormTitle tag="h3">Account Key</Forms.FormTitle>
             <Forms.FormText>
-                Your unique account key for the CLIP API. This is automatically generated but can be changed.
+                Your unique account key for the CLIP API. This is automatically generated but can be changed. If it has leaked, rotate it to move your index to a new key and revoke the old one.
             </Forms.FormText>
 
             <div style={{ marginTop: 12 }}>
@@ -508,18 +1067,24 @@ function UserKeyComponent() {
                         Copy
                     </Button>
                     <Button
-                        onClick={generateNewKey}
+                        onClick={rotateKey}
+                        disabled={rotating}
                         size={Button.Sizes.SMALL}
                         look={Button.Looks.OUTLINED}
                         color={Button.Colors.PRIMARY}
                         style={{ minHeight: "32px" }}
                     >
-                        Generate New
+                        {rotating ? "Rotating..." : "Rotate Key"}
                     </Button>
                 </Flex>
-                {userKey.length > 0 && userKey.length !== 32 && (
+                {userKey.length > 0 && userKey.length !== ACCOUNT_KEY_LENGTH && (
                     <Text variant={"text-xs/normal"} style={{ color: "var(--status-warning)", marginTop: 4 }}>
-                        Key should be exactly 32 characters long
+                        Key should be exactly {ACCOUNT_KEY_LENGTH} characters long
+                    </Text>
+                )}
+                {rotationMessage && (
+                    <Text variant={"text-xs/normal"} style={{ color: rotationMessage.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                        {rotationMessage.text}
                     </Text>
                 )}
             </div>
@@ -529,58 +1094,680 @@ function UserKeyComponent() {
     );
 }
 
-export const settings = definePluginSettings({
-    api_url: {
-        type: OptionType.STRING,
-        description: "CLIP API URL",
-        default: "https://gif-search.woodie.dev"
-    },
-    hello_world_component: {
-        type: OptionType.COMPONENT,
-        component: ModelWeightsComponent
-    },
-    status_counts_component: {
-        type: OptionType.COMPONENT,
-        component: StatusCountsComponent
-    },
-    user_key_component: {
-        type: OptionType.COMPONENT,
-        component: UserKeyComponent
-    },
-}).withPrivateSettings<{ accountKeys?: Record<string, string>; modelWeights?: Record<string, number>; }>();
+// Weights learned from picked search results component
+function LearnedWeightsComponent() {
+    const [picks, setPicks] = useState<SearchPick[] | null>(null);
+    const [message, setMessage] = useState<{ text: string; error: boolean; } | null>(null);
 
+    const load = useCallback(() => {
+        getPicks().then(setPicks).catch(e => console.error("Error loading GIF picks:", e));
+    }, []);
 
-export default definePlugin({
-    name: "ClipFavGifSearch",
-    authors: [Devs.Aria, { name: "Woodie", id: 851073836152651777n }],
-    description: "Adds a CLIP search bar to favorite gifs.",
+    useEffect(load, [load]);
 
-    start() {
-        // Initialize tracking weights from modelWeights
-        lastRankingWeights = { ...getModelWeights() };
+    const learned = picks && learnWeights(picks);
 
-        // Try to fetch available models from the API and initialize weights if missing
-        (async () => {
-            try {
-                const response = await fetch(`${settings.store.api_url}/models`);
-                if (!response.ok) return;
-                const models = await response.json() as Record<string, number>;
-                const current = getModelWeights();
-                let changed = false;
-                for (const [name, weight] of Object.entries(models)) {
-                    if (current[name] === undefined) {
-                        current[name] = weight;
-                        changed = true;
-                    }
-                }
-                if (changed) {
-                    (settings.store as any).modelWeights = current;
-                    lastRankingWeights = { ...current };
-                }
-            } catch (e) {
-                // ignore
-            }
-        })();
+    const apply = async () => {
+        setMessage(await applyLearnedWeights()
+            ? { text: "Learned weights applied, reopen settings to see them on the sliders.", error: false }
+            : { text: "Not enough picks to learn from yet.", error: true });
+    };
+
+    const reset = async () => {
+        try {
+            await resetLearning();
+            setMessage({ text: "Picks forgotten and weights reset to the recommended ones.", error: false });
+        } catch (err: any) {
+            console.error("Error resetting learned weights:", err);
+            setMessage({ text: `Failed to reset: ${err.message || err}`, error: true });
+        }
+        load();
+    };
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Learned Weights</Forms.FormTitle>
+            <Forms.FormText>
+                Which search result you pick and how each model ranked it is recorded on this device only, and used to learn which models work best for you.
+            </Forms.FormText>
+
+            <div style={{ marginTop: 12, padding: 12, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                    {picks == null ? "Loading..." : `${picks.length} picks recorded`}
+                </Text>
+                {picks != null && !learned && (
+                    <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                        Weights are learned after {MIN_PICKS_TO_TUNE} picks
+                    </Text>
+                )}
+                {learned && Object.entries(learned).map(([model, weight]) => (
+                    <Flex key={model} direction={Flex.Direction.HORIZONTAL} style={{ justifyContent: "space-between", marginTop: 4 }}>
+                        <Text variant={"text-sm/normal"}>{model}</Text>
+                        <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                            learned {(weight * 100).toFixed(0)}%, current {((getModelWeights()[model] ?? 0) * 100).toFixed(0)}%
+                        </Text>
+                    </Flex>
+                ))}
+            </div>
+
+            <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", marginTop: 8 }}>
+                <Button onClick={apply} disabled={!learned} size={Button.Sizes.SMALL}>
+                    Apply learned weights
+                </Button>
+                <Button
+                    onClick={reset}
+                    size={Button.Sizes.SMALL}
+                    look={Button.Looks.OUTLINED}
+                    color={Button.Colors.PRIMARY}
+                >
+                    Reset to defaults
+                </Button>
+            </Flex>
+            {message && (
+                <Text variant={"text-xs/normal"} style={{ color: message.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                    {message.text}
+                </Text>
+            )}
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+// Search history and pinned searches component
+function SearchHistoryComponent() {
+    const [history, setHistory] = useState(getSearchHistory);
+    const [saved, setSaved] = useState(getSavedQueries);
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Search History</Forms.FormTitle>
+            <Forms.FormText>
+                {history.length === 0 ? "No searches remembered for this account." : `${history.length} searches remembered for this account.`}
+                {" "}Pinned searches show as chips under the search bar.
+            </Forms.FormText>
+
+            <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.25rem", flexWrap: "wrap", marginTop: 8 }}>
+                {saved.map(query => (
+                    <Button
+                        key={query}
+                        onClick={() => {
+                            removeSavedQuery(query);
+                            setSaved(getSavedQueries());
+                        }}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        {query} ✕
+                    </Button>
+                ))}
+            </Flex>
+
+            <Button
+                onClick={() => {
+                    clearSearchHistory();
+                    setHistory(getSearchHistory());
+                }}
+                disabled={history.length === 0}
+                size={Button.Sizes.SMALL}
+                color={Button.Colors.RED}
+                style={{ marginTop: 8 }}
+            >
+                Clear history
+            </Button>
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+// Downloaded embeddings for local search component
+function LocalEmbeddingsComponent() {
+    const [embeddings, setEmbeddings] = useState<Record<string, ModelEmbeddings | null>>({});
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean; } | null>(null);
+
+    const models = Object.entries(getModelWeights()).filter(([, w]) => w > 0).map(([name]) => name);
+
+    const load = useCallback(async () => {
+        setEmbeddings(await getLocalEmbeddings(UserStore.getCurrentUser().id, models));
+    }, [models.join(",")]);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const run = async (action: () => Promise<void>, done: string) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            await action();
+            setMessage({ text: done, error: false });
+        } catch (err: any) {
+            console.error("Error updating local embeddings:", err);
+            setMessage({ text: err.message || String(err), error: true });
+        } finally {
+            await load();
+            setBusy(false);
+        }
+    };
+
+    const download = () => run(async () => {
+        const id = UserStore.getCurrentUser().id;
+        const key = getAccountKey(id);
+        if (!key) throw new Error("No valid account key found");
+        if (!await getApiClient().supports("embeddings")) throw new Error("The server doesn't support downloading embeddings");
+        await syncEmbeddings(id, key, models);
+    }, "Embeddings downloaded.");
+
+    const clear = () => run(() => clearLocalEmbeddings(UserStore.getCurrentUser().id), "Local copy deleted.");
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Local Search</Forms.FormTitle>
+            <Forms.FormText>
+                In local search mode the embeddings of your favourites are kept on this device, so searches don't go to the server except to embed new search text. They are downloaded on the first search and refreshed when indexing changes.
+            </Forms.FormText>
+
+            <div style={{ marginTop: 12 }}>
+                {models.map(model => (
+                    <Text key={model} variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>
+                        {model}: {embeddings[model]
+                            ? `${embeddings[model]!.vectors.size} GIFs, downloaded ${new Date(embeddings[model]!.syncedAt).toLocaleString()}`
+                            : "not downloaded"}
+                    </Text>
+                ))}
+
+                <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", marginTop: 8 }}>
+                    <Button onClick={download} disabled={busy || models.length === 0} size={Button.Sizes.SMALL}>
+                        Download now
+                    </Button>
+                    <Button
+                        onClick={clear}
+                        disabled={busy}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Delete local copy
+                    </Button>
+                </Flex>
+                {message && (
+                    <Text variant={"text-xs/normal"} style={{ color: message.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                        {message.text}
+                    </Text>
+                )}
+            </div>
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+// Export and import of the plugin's state component
+function BackupComponent() {
+    const [passphrase, setPassphrase] = useState("");
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean; } | null>(null);
+
+    const run = async (action: () => Promise<string | null>) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            const text = await action();
+            if (text) setMessage({ text, error: false });
+        } catch (err: any) {
+            console.error("Error with plugin backup:", err);
+            setMessage({ text: err.message || String(err), error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onExport = () => run(async () => {
+        const json = await exportBackup(passphrase || undefined);
+        saveFile(new File([json], `clip-fav-gif-search-backup-${new Date().toISOString().slice(0, 10)}.json`, { type: "application/json" }));
+        return passphrase
+            ? "Backup exported with encrypted account keys."
+            : "Backup exported. It contains your account keys unencrypted, so keep it somewhere safe.";
+    });
+
+    const importJson = (json: string, keyConflicts: KeyConflictChoice) => run(async () => {
+        try {
+            const accounts = await importBackup(json, passphrase || undefined, keyConflicts);
+            return `Imported ${accounts} account${accounts === 1 ? "" : "s"}. Reopen settings to see the imported values.`;
+        } catch (err) {
+            if (!(err instanceof KeyConflictError)) throw err;
+
+            Alerts.show({
+                title: "Replace account keys?",
+                body: `${err.message}. Using the backup's keys switches to the index stored under them, and the current keys are revoked if the server can, deleting what's indexed under them. Keeping the current keys imports everything else.`,
+                confirmText: "Use the backup's keys",
+                secondaryConfirmText: "Keep current keys",
+                cancelText: "Cancel",
+                onConfirm: () => importJson(json, "replace"),
+                onConfirmSecondary: () => importJson(json, "keep")
+            });
+            return null;
+        }
+    });
+
+    const onImport = () => run(async () => {
+        const file = await chooseFile("application/json");
+        if (!file) return null;
+
+        const json = await file.text();
+        if (isEncryptedBackup(json) && !passphrase) throw new Error("This backup is encrypted, enter its passphrase above first");
+
+        importJson(json, "ask");
+        return null;
+    });
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Backup</Forms.FormTitle>
+            <Forms.FormText>
+                Export your account keys, model weights, preferences, synced favourites and searches to a file, to restore them after reinstalling or on another machine. Importing merges the backup into what's here, account by account.
+            </Forms.FormText>
+
+            <div style={{ marginTop: 12 }}>
+                <TextInput
+                    type="password"
+                    value={passphrase}
+                    onChange={setPassphrase}
+                    placeholder="Passphrase to encrypt account keys (optional)"
+                />
+                <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.5rem", marginTop: 8 }}>
+                    <Button onClick={onExport} disabled={busy} size={Button.Sizes.SMALL}>
+                        Export
+                    </Button>
+                    <Button
+                        onClick={onImport}
+                        disabled={busy}
+                        size={Button.Sizes.SMALL}
+                        look={Button.Looks.OUTLINED}
+                        color={Button.Colors.PRIMARY}
+                    >
+                        Import
+                    </Button>
+                </Flex>
+                {message && (
+                    <Text variant={"text-xs/normal"} style={{ color: message.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                        {message.text}
+                    </Text>
+                )}
+            </div>
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+// Duplicate favourites component
+function DuplicatesComponent() {
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Duplicate Favourites</Forms.FormTitle>
+            <Forms.FormText>
+                Find favourites that are the same GIF saved more than once, such as a Tenor link and a Discord copy of it, by comparing their embeddings, then unfavourite the extra copies.
+            </Forms.FormText>
+
+            <Button onClick={openDuplicatesModal} size={Button.Sizes.SMALL} style={{ marginTop: 8 }}>
+                Find duplicates
+            </Button>
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Stored data and delete actions component
+function DataManagementComponent() {
+    const { data: statusData } = useStatusFeed();
+    const [usage, setUsage] = useState<Record<string, ModelUsage> | null>(null);
+    // Servers without delete-data can only drop everything, by revoking the key
+    const [deleteSupport, setDeleteSupport] = useState<"models" | "all" | null>(null);
+    const [deleting, setDeleting] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean; } | null>(null);
+
+    const loadUsage = useCallback(async () => {
+        const key = getAccountKey(UserStore.getCurrentUser().id);
+        const client = getApiClient();
+
+        if (await client.supports("delete-data")) setDeleteSupport("models");
+        else if (await client.supports("revoke")) setDeleteSupport("all");
+        if (!key || !await client.supports("usage")) return;
+
+        try {
+            setUsage(await client.getUsage(key));
+        } catch (err: any) {
+            console.error("Error fetching usage:", err);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadUsage();
+    }, [loadUsage]);
+
+    // Entry counts come from the status counts, which every server has; sizes only from servers that report usage
+    const models = [...new Set([...Object.keys(statusData?.counts ?? {}), ...Object.keys(usage ?? {})])];
+    const getEntries = (model: string) => usage?.[model]?.entries ?? (statusData?.counts[model] ?? []).reduce((a, b) => a + b, 0);
+
+    const confirmDelete = (models?: string[]) => {
+        Alerts.show({
+            title: models ? `Delete ${models.join(", ")} data?` : "Delete all your data?",
+            body: models
+                ? "Everything indexed with this model will be deleted from the server and its weight set to 0 so it isn't indexed again."
+                : "Your whole GIF index will be deleted from the server and automatic indexing turned off. Turn it back on to re-index your favourites.",
+            confirmText: "Delete",
+            cancelText: "Cancel",
+            onConfirm: async () => {
+                setDeleting(true);
+                setMessage(null);
+                try {
+                    await deleteServerData(models);
+                    if (!models) settings.store.auto_index = false;
+                    setMessage({ text: models ? `Deleted ${models.join(", ")} data.` : "Deleted all of your data.", error: false });
+                    setUsage(null);
+                    await loadUsage();
+                } catch (err: any) {
+                    console.error("Error deleting data:", err);
+                    setMessage({ text: `Failed to delete data: ${err.message || err}`, error: true });
+                } finally {
+                    setDeleting(false);
+                }
+            }
+        });
+    };
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle tag="h3">Your Data</Forms.FormTitle>
+            <Forms.FormText>
+                What the CLIP server stores for this account. The server keeps your favourites' links and embeddings until you delete them.
+            </Forms.FormText>
+
+            <div style={{ marginTop: 12 }}>
+                {models.length === 0 && (
+                    <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)", marginBottom: 8 }}>
+                        Nothing is stored for this account
+                    </Text>
+                )}
+                {models.map(model => (
+                    <Flex key={model} direction={Flex.Direction.HORIZONTAL} style={{ alignItems: "center", gap: "0.75rem", padding: 8, marginBottom: 4, backgroundColor: "var(--background-secondary)", borderRadius: 8 }}>
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                            <Text variant={"text-sm/semibold"}>{model}</Text>
+                            <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>
+                                {getEntries(model)} entries{usage?.[model] ? `, ${formatBytes(usage[model].bytes)}` : ""}
+                            </Text>
+                        </div>
+                        <Button
+                            onClick={() => confirmDelete([model])}
+                            disabled={deleting || deleteSupport !== "models"}
+                            size={Button.Sizes.SMALL}
+                            look={Button.Looks.OUTLINED}
+                            color={Button.Colors.RED}
+                        >
+                            Delete
+                        </Button>
+                    </Flex>
+                ))}
+
+                <Button
+                    onClick={() => confirmDelete()}
+                    disabled={deleting || !deleteSupport}
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    style={{ marginTop: 8 }}
+                >
+                    {deleting ? "Deleting..." : "Delete all my data"}
+                </Button>
+                {!deleteSupport && (
+                    <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)", marginTop: 4 }}>
+                        This server doesn't support deleting data, so it can't be deleted when the plugin is disabled either
+                    </Text>
+                )}
+                {message && (
+                    <Text variant={"text-xs/normal"} style={{ color: message.error ? "var(--status-danger)" : "var(--text-muted)", marginTop: 4 }}>
+                        {message.text}
+                    </Text>
+                )}
+            </div>
+
+            <Forms.FormDivider style={{ marginTop: 12 }} />
+        </Forms.FormSection>
+    );
+}
+
+export const settings = definePluginSettings({
+    api_url: {
+        type: OptionType.STRING,
+        description: "CLIP API URL",
+        default: "https://gif-search.woodie.dev"
+    },
+    connection_test_component: {
+        type: OptionType.COMPONENT,
+        component: ConnectionTestComponent
+    },
+    fusion_strategy: {
+        type: OptionType.SELECT,
+        description: "How rankings from multiple models are combined",
+        options: [
+            { label: "Weighted Reciprocal Rank Fusion", value: "rrf", default: true },
+            { label: "Min-max normalised distances", value: "minMax" },
+            { label: "Weighted inverse rank average (legacy)", value: "inverseRank" }
+        ]
+    },
+    rrf_k: {
+        type: OptionType.NUMBER,
+        description: "Reciprocal Rank Fusion k constant (higher values give lower-ranked results more say)",
+        default: DEFAULT_RRF_K,
+        isValid: (value: number) => value >= 0 || "k can't be negative"
+    },
+    search_mode: {
+        type: OptionType.SELECT,
+        description: "Where searches are ranked",
+        options: [
+            { label: "Server: send every search to the CLIP server", value: "server", default: true },
+            { label: "Local: download GIF embeddings once and rank on this device", value: "local" }
+        ]
+    },
+    lexical_search: {
+        type: OptionType.SELECT,
+        description: "Keyword search over GIF links, for when the CLIP server is unreachable or hasn't processed a GIF yet",
+        options: [
+            { label: "Blend: show keyword matches after CLIP results", value: "blend", default: true },
+            { label: "Fallback: only when CLIP returns nothing or fails", value: "fallback" },
+            { label: "Off", value: "off" }
+        ]
+    },
+    auto_index: {
+        type: OptionType.BOOLEAN,
+        description: "Automatically upload favourites to the CLIP server for indexing",
+        default: true
+    },
+    allowed_hosts: {
+        type: OptionType.STRING,
+        description: "Hosts whose favourites can be indexed, separated by commas. *.example.com also allows any subdomain of example.com. Servers that can't index videos and images only take Discord's media CDN and Tenor",
+        default: DEFAULT_ALLOWED_HOSTS
+    },
+    delete_on_disable: {
+        type: OptionType.BOOLEAN,
+        description: "Delete your data from the CLIP server when this plugin is disabled (needs a server that can delete data)",
+        default: false,
+        disabled: () => !serverCanDelete
+    },
+    relevance_badges: {
+        type: OptionType.BOOLEAN,
+        description: "Show each search result's score on its tile, relative to the best result of the search (which is always 100%)",
+        default: false
+    },
+    result_cutoff: {
+        type: OptionType.SELECT,
+        description: "Which search results count as matches, the rest go below the divider",
+        options: [
+            { label: "Every result", value: "off", default: true },
+            { label: "Only the top results", value: "top" },
+            { label: "Only results scoring close enough to the best one", value: "relevance" }
+        ]
+    },
+    cutoff_top_n: {
+        type: OptionType.NUMBER,
+        description: "Number of top results that count as matches",
+        default: 30,
+        isValid: (value: number) => Number.isInteger(value) && value >= 1 || "Must be a whole number of at least 1"
+    },
+    cutoff_min_relevance: {
+        type: OptionType.NUMBER,
+        description: "Minimum score in percent of the best result's for a result to count as a match. Scores are relative, so this narrows every search, even ones where nothing matches well",
+        default: 50,
+        isValid: (value: number) => value >= 0 && value <= 100 || "Must be between 0 and 100"
+    },
+    show_other_favourites: {
+        type: OptionType.BOOLEAN,
+        description: "Show the rest of your favourites below the matches, so ones that haven't been indexed can still be reached",
+        default: true
+    },
+    search_history: {
+        type: OptionType.BOOLEAN,
+        description: "Remember your searches so they can be recalled with the up and down arrow keys. Turning it off forgets the searches remembered so far",
+        default: true,
+        onChange: (value: boolean) => {
+            if (!value) forgetAllSearchHistory();
+        }
+    },
+    search_history_component: {
+        type: OptionType.COMPONENT,
+        component: SearchHistoryComponent
+    },
+    hello_world_component: {
+        type: OptionType.COMPONENT,
+        component: ModelWeightsComponent
+    },
+    weight_presets_component: {
+        type: OptionType.COMPONENT,
+        component: WeightPresetsComponent
+    },
+    auto_tune: {
+        type: OptionType.BOOLEAN,
+        description: "Automatically adjust the model weights towards the models that rank the GIFs you pick highest",
+        default: false
+    },
+    learned_weights_component: {
+        type: OptionType.COMPONENT,
+        component: LearnedWeightsComponent
+    },
+    status_counts_component: {
+        type: OptionType.COMPONENT,
+        component: StatusCountsComponent
+    },
+    upload_progress_component: {
+        type: OptionType.COMPONENT,
+        component: UploadProgressComponent
+    },
+    skipped_gifs_component: {
+        type: OptionType.COMPONENT,
+        component: SkippedGifsComponent
+    },
+    user_key_component: {
+        type: OptionType.COMPONENT,
+        component: UserKeyComponent
+    },
+    local_embeddings_component: {
+        type: OptionType.COMPONENT,
+        component: LocalEmbeddingsComponent
+    },
+    duplicate_similarity: {
+        type: OptionType.NUMBER,
+        description: "Minimum similarity in percent for two favourites to count as duplicates",
+        default: 95,
+        isValid: (value: number) => value >= 50 && value <= 100 || "Must be between 50 and 100"
+    },
+    duplicates_component: {
+        type: OptionType.COMPONENT,
+        component: DuplicatesComponent
+    },
+    backup_component: {
+        type: OptionType.COMPONENT,
+        component: BackupComponent
+    },
+    data_management_component: {
+        type: OptionType.COMPONENT,
+        component: DataManagementComponent
+    },
+}).withPrivateSettings<{ accountKeys?: Record<string, string>; modelWeights?: Record<string, number>; syncStates?: Record<string, SyncState>; pendingUploads?: Record<string, PendingUpload>; syncState?: SyncState; pendingUpload?: PendingUpload; approvedHosts?: string[]; pendingRevocations?: Record<string, string>; searchHistory?: Record<string, string[]>; savedQueries?: Record<string, string[]>; weightPresets?: Record<string, Record<string, number>>; }>();
+
+
+export default definePlugin({
+    name: "ClipFavGifSearch",
+    authors: [Devs.Aria, { name: "Woodie", id: 851073836152651777n }],
+    description: "Adds a CLIP search bar to favorite gifs.",
+
+    start() {
+        enableStyle(style);
+
+        // Ask to allow the configured server through Discord's CSP if it's a new one
+        ensureApiHostAllowed().then(result => {
+            if (result === "allowed") showToast("CLIP GIF search server allowed, reload Discord to connect to it", Toasts.Type.SUCCESS);
+            else if (result === "invalid") showToast("CLIP GIF search API URL is not valid", Toasts.Type.FAILURE);
+        }).catch(e => console.error("Error allowing CLIP API host:", e));
+
+        migrateIndexState();
+        checkCurrentAccount();
+
+        getApiClient().getServerInfo()
+            .then(({ capabilities }) => {
+                serverCanDelete = capabilities.includes("delete-data") || capabilities.includes("revoke");
+                setLegacyHostsOnly(!capabilities.includes("media-types"));
+            })
+            .catch(e => console.error("Error checking the CLIP server's capabilities:", e));
+
+        // Try to fetch available models from the API and initialize weights if missing
+        (async () => {
+            try {
+                const models = await getApiClient().getModels();
+                const current = getModelWeights();
+                let changed = false;
+                for (const [name, weight] of Object.entries(models)) {
+                    if (current[name] === undefined) {
+                        current[name] = weight;
+                        changed = true;
+                    }
+                }
+                if (changed) {
+                    (settings.store as any).modelWeights = current;
+                }
+            } catch (e) {
+                // ignore
+            }
+        })();
+    },
+
+    flux: {
+        // Fires again when Discord switches accounts
+        CONNECTION_OPEN: checkCurrentAccount
+    },
+
+    stop() {
+        disableStyle(style);
+        checkedUserId = undefined;
+
+        // A pending upload is persisted, so it resumes where it stopped if the plugin is enabled again
+        uploadController?.abort();
+
+        if (settings.store.delete_on_disable && serverCanDelete) {
+            deleteServerData().catch(e => {
+                console.error("Error deleting data from the CLIP server:", e);
+                showToast("Couldn't delete your data from the CLIP server", Toasts.Type.FAILURE);
+            });
+        }
     },
 
     patches: [
@@ -606,6 +1793,8 @@ export default definePlugin({
 
     settings,
 
+    commands: [favGifCommand],
+
     instance: null as Instance | null,
     renderSearchBar(instance: Instance, SearchBarComponent: TSearchBarComponent) {
         this.instance = instance;
@@ -625,12 +1814,7 @@ export default definePlugin({
         const s = settings.store.accountKeys ??= {};
         const id = UserStore.getCurrentUser().id;
         if (s[id] === undefined) {
-            const charset = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-            let key = "";
-            for (let i = 0; i < 32; i++) {
-                key += charset.charAt(Math.floor(Math.random() * charset.length));
-            }
-            s[id] = key;
+            s[id] = generateAccountKey();
         }
 
 
@@ -644,12 +1828,163 @@ export default definePlugin({
 });
 
 
+// Find the favourite a picker tile belongs to by the src of its media element
+function findGifForElement(target: Element, favorites: Gif[]): Gif | undefined {
+    const media = target.closest("img, video") ?? target.closest("[class*=\"result\"]")?.querySelector("img, video");
+    const src = (media as HTMLImageElement | HTMLVideoElement | null)?.src;
+    if (!src) return undefined;
+
+    const stripQuery = (url: string) => url.split("?")[0];
+    return favorites.find(gif => gif.src === src) ?? favorites.find(gif => stripQuery(gif.src) === stripQuery(src));
+}
+
+// Compact indexing progress for the GIF picker header, only shown while the server is still working
+function IndexingIndicator() {
+    const { data } = useStatusFeed();
+    if (!data || isTerminal(data)) return null;
+
+    let done = 0;
+    let total = 0;
+    for (const [failed, downloading, processing, completed] of Object.values(data.counts)) {
+        done += failed + completed;
+        total += failed + downloading + processing + completed;
+    }
+    const percent = total > 0 ? Math.round(done / total * 100) : 0;
+
+    return (
+        <Flex direction={Flex.Direction.HORIZONTAL} style={{ alignItems: "center", gap: "0.5rem", marginTop: 6 }}>
+            <div style={{ flex: 1, height: 4, borderRadius: 2, backgroundColor: "var(--background-modifier-accent)", overflow: "hidden" }}>
+                <div style={{ width: `${percent}%`, height: "100%", backgroundColor: "var(--brand-500)" }} />
+            </div>
+            <Text variant={"text-xs/normal"} style={{ color: "var(--text-muted)" }}>
+                Indexing {done} / {total}
+            </Text>
+        </Flex>
+    );
+}
+
+// Removable chip shown under the search bar while searching for GIFs similar to a favourite
+function SimilarChip({ gif, onRemove }: { gif: Gif; onRemove: () => void; }) {
+    return (
+        <Flex direction={Flex.Direction.HORIZONTAL} style={{
+            alignItems: "center",
+            gap: "0.5rem",
+            marginTop: 8,
+            padding: "4px 8px",
+            width: "fit-content",
+            borderRadius: 16,
+            backgroundColor: "var(--background-secondary)"
+        }}>
+            <GifPreview gif={gif} size={24} />
+            <Text variant={"text-sm/normal"}>Similar to…</Text>
+            <Clickable onClick={onRemove} aria-label="Remove similarity search">
+                <Text variant={"text-sm/semibold"} style={{ color: "var(--interactive-normal)" }}>✕</Text>
+            </Clickable>
+        </Flex>
+    );
+}
+
+// Pinned queries under the search bar, plus a chip to pin the current one
+function SavedQueryChips({ saved, query, onSelect, onSave, onRemove }: {
+    saved: string[];
+    query: string;
+    onSelect: (query: string) => void;
+    onSave: () => void;
+    onRemove: (query: string) => void;
+}) {
+    const canSave = query.trim() !== "" && !saved.includes(query.trim());
+    if (saved.length === 0 && !canSave) return null;
+
+    const chipStyle = {
+        alignItems: "center",
+        gap: "0.25rem",
+        padding: "2px 8px",
+        borderRadius: 16,
+        backgroundColor: "var(--background-secondary)"
+    };
+
+    return (
+        <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.25rem", flexWrap: "wrap", marginTop: 8 }}>
+            {saved.map(savedQuery => (
+                <Flex key={savedQuery} direction={Flex.Direction.HORIZONTAL} style={{ ...chipStyle, flexGrow: 0 }}>
+                    <Clickable onClick={() => onSelect(savedQuery)}>
+                        <Text variant={"text-sm/normal"}>{savedQuery}</Text>
+                    </Clickable>
+                    <Clickable onClick={() => onRemove(savedQuery)} aria-label={`Unpin ${savedQuery}`}>
+                        <Text variant={"text-xs/semibold"} style={{ color: "var(--interactive-normal)" }}>✕</Text>
+                    </Clickable>
+                </Flex>
+            ))}
+            {canSave && (
+                <Clickable onClick={onSave} style={{ ...chipStyle, display: "flex" }}>
+                    <Text variant={"text-sm/normal"} style={{ color: "var(--text-muted)" }}>+ Pin search</Text>
+                </Clickable>
+            )}
+        </Flex>
+    );
+}
+
+const FORMAT_LABELS: Record<MediaKind, string> = { gif: "GIFs", video: "Videos", image: "Images" };
+
+// Quick format: filter under the search bar, it edits the query so it combines with everything else typed
+function FormatFilterChips({ query, onSelect }: { query: string; onSelect: (format: MediaKind | null) => void; }) {
+    const active = getFormatFilter(query);
+
+    return (
+        <Flex direction={Flex.Direction.HORIZONTAL} style={{ gap: "0.25rem", marginTop: 8 }}>
+            {[null, ...MEDIA_KINDS].map(format => (
+                <Clickable
+                    key={format ?? "all"}
+                    onClick={() => onSelect(format)}
+                    style={{
+                        padding: "2px 8px",
+                        borderRadius: 16,
+                        backgroundColor: format === active ? "var(--brand-500)" : "var(--background-secondary)"
+                    }}
+                >
+                    <Text variant={"text-xs/normal"} style={{ color: format === active ? "var(--white-500)" : undefined }}>
+                        {format ? FORMAT_LABELS[format] : "All"}
+                    </Text>
+                </Clickable>
+            ))}
+        </Flex>
+    );
+}
+
 function SearchBar({ instance, SearchBarComponent }: { instance: Instance; SearchBarComponent: TSearchBarComponent; }) {
     const [query, setQuery] = useState("");
     const [debouncedQuery, setDebouncedQuery] = useState("");
+    const [similarTo, setSimilarTo] = useState<Gif | null>(null);
+    const [queryError, setQueryError] = useState<string | null>(null);
+    const [canSearchSimilar, setCanSearchSimilar] = useState(false);
     const ref = useRef<{ containerRef?: React.RefObject<HTMLDivElement>; } | null>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
     const debounceTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    const [savedQueries, setSavedQueries] = useState(getSavedQueries);
+    // Per-model results side by side, for tuning the weights
+    const [compare, setCompare] = useState(false);
+    const [outcome, setOutcome] = useState<SearchOutcome | null>(null);
+    // Bumped when the comparison changes the weights, re-running the search from the cache
+    const [weightsVersion, setWeightsVersion] = useState(0);
+    // Position in the search history while recalling with the arrow keys, -1 when not recalling
+    const historyIndexRef = useRef(-1);
+    // The last query that was searched, added to the history once the user moves on from it
+    const lastSearchRef = useRef("");
+    // Result picked by Enter, moved with the arrow keys
+    const highlightIndexRef = useRef(0);
+    // Results on screen, to learn model weights from what gets picked out of them
+    const outcomeRef = useRef<SearchOutcome | null>(null);
+
+    const notePick = useCallback((gif: Gif) => {
+        const outcome = outcomeRef.current;
+        if (!outcome || instance.props.favorites === instance.props.favCopy) return;
+        recordPick(outcome.modelResults, gif.url).catch(e => console.error("Error recording GIF pick:", e));
+    }, [instance]);
+
+    const commitHistory = useCallback(() => {
+        recordSearch(lastSearchRef.current);
+        lastSearchRef.current = "";
+    }, []);
 
     // Check for ranking weight changes and trigger indexing if needed
     useEffect(() => {
@@ -658,8 +1993,9 @@ function SearchBar({ instance, SearchBarComponent }: { instance: Instance; Searc
         }
     });
 
-    const onChange = useCallback((searchQuery: string) => {
+    const runQuery = useCallback((searchQuery: string, delay = 300) => {
         setQuery(searchQuery);
+        setSimilarTo(null);
 
         // Clear existing debounce timeout
         if (debounceTimeoutRef.current) {
@@ -673,7 +2009,10 @@ function SearchBar({ instance, SearchBarComponent }: { instance: Instance; Searc
 
         // Handle empty query immediately
         if (searchQuery === "") {
+            commitHistory();
             setDebouncedQuery("");
+            setQueryError(null);
+            setResultDecorations(null);
             const { props } = instance;
             props.favorites = props.favCopy;
             instance.forceUpdate();
@@ -683,101 +2022,195 @@ function SearchBar({ instance, SearchBarComponent }: { instance: Instance; Searc
         // Debounce the search - wait 300ms after user stops typing
         debounceTimeoutRef.current = setTimeout(() => {
             setDebouncedQuery(searchQuery);
-        }, 300);
+        }, delay);
     }, [instance]);
 
-    // Effect to handle the actual search when debouncedQuery changes
+    const onChange = useCallback((searchQuery: string) => {
+        historyIndexRef.current = -1;
+        runQuery(searchQuery);
+    }, [runQuery]);
+
+    // Saved query chips search straight away
+    const selectSavedQuery = useCallback((savedQuery: string) => {
+        commitHistory();
+        historyIndexRef.current = -1;
+        runQuery(savedQuery, 0);
+    }, [runQuery]);
+
+    // Keyboard control of the search bar:
+    // - Enter sends the highlighted result (the top one by default) like clicking it, Shift+Enter inserts its link
+    // - the arrow keys move the highlight through the results, or recall earlier searches into an empty bar
     useEffect(() => {
-        if (debouncedQuery === "") return;
+        const input = ref.current?.containerRef?.current?.querySelector("input");
+        if (!input) return;
 
-        const performSearch = async () => {
+        const onKeyDown = (e: KeyboardEvent) => {
             const { props } = instance;
+            const showingResults = props.favorites !== props.favCopy && props.favorites.length > 0;
+
+            if (e.key === "Enter" && showingResults) {
+                const gif = props.favorites[highlightIndexRef.current] ?? props.favorites[0];
+                e.preventDefault();
+                notePick(gif);
+                if (e.shiftKey) insertTextIntoChatInputBox(`${gif.url} `);
+                else props.onSelectGIF?.(gif);
+                return;
+            }
 
-            const s = settings.store.accountKeys ??= {};
-            const id = UserStore.getCurrentUser().id;
-            if (s[id]?.length !== 32) return;
+            if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+
+            if (historyIndexRef.current !== -1 || (input.value === "" && !showingResults)) {
+                const history = getSearchHistory();
+                const index = e.key === "ArrowUp"
+                    ? Math.min(historyIndexRef.current + 1, history.length - 1)
+                    : Math.max(historyIndexRef.current - 1, -1);
+                if (index === historyIndexRef.current) return;
+
+                e.preventDefault();
+                historyIndexRef.current = index;
+                runQuery(index === -1 ? "" : history[index]);
+            } else if (showingResults) {
+                e.preventDefault();
+                const step = e.key === "ArrowDown" ? 1 : -1;
+                highlightIndexRef.current = Math.min(Math.max(highlightIndexRef.current + step, 0), props.favorites.length - 1);
+                setHighlightedResult(props.favorites[highlightIndexRef.current]);
+            }
+        };
 
-            // Create new AbortController for this request
-            abortControllerRef.current = new AbortController();
+        input.addEventListener("keydown", onKeyDown);
+        return () => input.removeEventListener("keydown", onKeyDown);
+    }, [instance, runQuery, notePick]);
 
-            // scroll back to top
-            ref.current?.containerRef?.current
-                ?.closest("#gif-picker-tab-panel")
-                ?.querySelector("[class|=\"content\"]")
-                ?.firstElementChild?.scrollTo(0, 0);
+    // Switch to searching by a favourite's embedding, replacing any text query
+    const searchSimilar = useCallback((gif: Gif) => {
+        commitHistory();
+        if (debounceTimeoutRef.current) {
+            clearTimeout(debounceTimeoutRef.current);
+        }
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort();
+        }
+        setQuery("");
+        setDebouncedQuery("");
+        setSimilarTo(gif);
+    }, []);
 
-            try {
-                // Build comma separated list of model names with >0 weight from dynamic modelWeights
-                const modelWeights = getModelWeights();
-                const models = Object.entries(modelWeights).filter(([, w]) => w > 0).map(([name]) => name);
-                const modelsStr = models.join(",");
-                const response = await fetch(`${settings.store.api_url}/${s[id]}/search?text=${encodeURIComponent(debouncedQuery)}&models=${encodeURIComponent(modelsStr)}&k=10000`, {
-                    signal: abortControllerRef.current.signal
-                });
+    const clearSimilar = useCallback(() => {
+        if (abortControllerRef.current) {
+            abortControllerRef.current.abort();
+        }
+        setSimilarTo(null);
+        setResultDecorations(null);
+        if (instance.props.favCopy != null) {
+            instance.props.favorites = instance.props.favCopy;
+            instance.forceUpdate();
+        }
+    }, [instance]);
 
-                if (!response.ok) {
-                    throw new Error(`HTTP error! status: ${response.status}`);
-                }
+    useEffect(() => {
+        const client = getApiClient();
+        // Local search finds similar GIFs from the downloaded embeddings
+        Promise.all([client.supports("search-by-name"), settings.store.search_mode === "local" && client.supports("embeddings")])
+            .then(([byName, local]) => setCanSearchSimilar(byName || local));
+    }, []);
 
-                // Map model names returned by the API to weights from our settings
-                const weights: Record<string, number> = {};
+    // Cached results go stale as the server finishes indexing
+    useEffect(() => subscribeStatus(({ data }) => {
+        if (data && noteIndexCounts(data.counts)) markEmbeddingsStale();
+    }), []);
 
-                const data = await response.json();
-                const modelResults = data.results as Record<string, [string, number][]>;
+    // Re-rank the current results when the weights or fusion settings change, served from the cache
+    const fusionKey = JSON.stringify([getModelWeights(), settings.store.fusion_strategy, settings.store.rrf_k]);
 
-                // Step 1: Build ranking maps per model
-                const rankingMaps: Record<string, Map<string, number>> = {};
-                Object.entries(modelResults).forEach(([modelId, results]) => {
-                    const sorted = [...results].sort((a, b) => a[1] - b[1]); // sort by ascending score (lower = better)
-                    const map = new Map<string, number>();
-                    sorted.forEach(([url], idx) => {
-                        map.set(url, idx + 1); // rank 1 = best
-                    });
-                    rankingMaps[modelId] = map;
-                });
+    // Keep relevance badges and the divider on the picker's tiles while this search bar is mounted
+    useEffect(() => {
+        const panel = ref.current?.containerRef?.current?.closest("#gif-picker-tab-panel");
+        return panel ? watchResultTiles(panel) : undefined;
+    }, []);
 
-                // modelResults keys may be model names or numeric ids; try to map them to our modelWeights
-                for (const modelId of Object.keys(modelResults)) {
-                    // prefer direct name match
-                    if (modelWeights[modelId] !== undefined) {
-                        weights[modelId] = modelWeights[modelId];
-                    } else {
-                        // fallback: try case-insensitive match
-                        const found = Object.keys(modelWeights).find(k => k.toLowerCase() === modelId.toLowerCase());
-                        if (found) weights[modelId] = modelWeights[found];
-                        else weights[modelId] = 0.5; // default
-                    }
-                }
+    // Clicking a result sends it through Discord's own handler, just note which one it was
+    useEffect(() => {
+        const panel = ref.current?.containerRef?.current?.closest("#gif-picker-tab-panel");
+        if (!panel) return;
+
+        const onClick = (e: Event) => {
+            // Only a click on the GIF itself sends it, the tile's favourite star and other controls sit next to it
+            const media = (e.target as Element).closest("img, video");
+            const gif = media && findGifForElement(media, instance.props.favorites ?? []);
+            if (gif) notePick(gif);
+        };
 
-                // Step 2: Collect all URLs
-                const allUrls = new Set<string>();
-                Object.values(modelResults).forEach(results => {
-                    results.forEach(([url]) => allUrls.add(url));
-                });
+        panel.addEventListener("click", onClick, true);
+        return () => panel.removeEventListener("click", onClick, true);
+    }, [instance, notePick]);
 
-                // Step 3: Aggregate weighted ranks
-                const aggregated = Array.from(allUrls).map(url => {
-                    let totalScore = 0;
-                    let totalWeight = 0;
-
-                    for (const [modelId, rankMap] of Object.entries(rankingMaps)) {
-                        const weight = weights[modelId] ?? 0.5;
-                        const rank = rankMap.get(url);
-                        if (rank !== undefined) {
-                            const score = 1 / rank; // inverse rank: higher = better
-                            totalScore += score * weight;
-                            totalWeight += weight;
-                        }
-                    }
+    // Offer "More like this" when right clicking a favourite in the picker, if the server can search by GIF
+    useEffect(() => {
+        if (!canSearchSimilar) return;
+
+        const panel = ref.current?.containerRef?.current?.closest("#gif-picker-tab-panel");
+        if (!panel) return;
+
+        const onContextMenu = (e: Event) => {
+            const gif = findGifForElement(e.target as Element, instance.props.favCopy ?? []);
+            if (!gif) return;
+
+            e.preventDefault();
+            ContextMenuApi.openContextMenu(e as any, () => (
+                <Menu.Menu navId="clip-fav-gif-search" onClose={ContextMenuApi.closeContextMenu} aria-label="CLIP GIF Search">
+                    <Menu.MenuItem id="clip-more-like-this" label="More like this" action={() => searchSimilar(gif)} />
+                </Menu.Menu>
+            ));
+        };
+
+        panel.addEventListener("contextmenu", onContextMenu);
+        return () => panel.removeEventListener("contextmenu", onContextMenu);
+    }, [instance, searchSimilar, canSearchSimilar]);
+
+    // Effect to handle the actual search when debouncedQuery or the "more like this" GIF changes
+    useEffect(() => {
+        if (debouncedQuery === "" && !similarTo) return;
+
+        const performSearch = async () => {
+            const { props } = instance;
 
-                    if (totalWeight === 0) return null;
+            // scroll back to top
+            ref.current?.containerRef?.current
+                ?.closest("#gif-picker-tab-panel")
+                ?.querySelector("[class|=\"content\"]")
+                ?.firstElementChild?.scrollTo(0, 0);
 
-                    const gif = props.favCopy.find(g => g.url === url);
-                    return gif ? { combinedScore: totalScore / totalWeight, gif } : null;
-                }).filter(Boolean) as { combinedScore: number, gif: Gif; }[];
+            // Create new AbortController for this request
+            abortControllerRef.current = new AbortController();
+
+            try {
+                const result = await searchFavorites(similarTo ?? debouncedQuery, props.favCopy, abortControllerRef.current.signal);
+                if (!result.ok) {
+                    setQueryError(result.error);
+                    return;
+                }
+                setQueryError(null);
+
+                // Recalled searches are already in the history, recording them would reorder it while it's being stepped through
+                if (!similarTo && historyIndexRef.current === -1) {
+                    // A search that isn't the last one typed further or corrected means the user moved on from it
+                    const previous = lastSearchRef.current;
+                    if (previous && !debouncedQuery.startsWith(previous) && !previous.startsWith(debouncedQuery)) recordSearch(previous);
+                    lastSearchRef.current = debouncedQuery;
+                }
 
-                aggregated.sort((a, b) => b.combinedScore - a.combinedScore); // higher = better
-                props.favorites = aggregated.map(e => e.gif);
+                // Matches first, then optionally the rest of the favourites after a divider
+                outcomeRef.current = result.outcome;
+                setOutcome(result.outcome);
+                const { matches, relevance } = result.outcome;
+                const others = settings.store.show_other_favourites ? result.outcome.others : [];
+                props.favorites = [...matches, ...others];
+                highlightIndexRef.current = 0;
+                setResultDecorations({
+                    relevance: settings.store.relevance_badges ? relevance : new Map(),
+                    others,
+                    highlighted: props.favorites[0] ?? null
+                });
                 instance.forceUpdate();
             } catch (err: any) {
                 if (err.name === 'AbortError') {
@@ -790,10 +2223,11 @@ function SearchBar({ instance, SearchBarComponent }: { instance: Instance; Searc
         };
 
         performSearch();
-    }, [debouncedQuery, instance]);
+    }, [debouncedQuery, similarTo, instance, fusionKey, weightsVersion]);
 
     useEffect(() => {
         return () => {
+            commitHistory();
             // Clear debounce timeout on unmount
             if (debounceTimeoutRef.current) {
                 clearTimeout(debounceTimeoutRef.current);
@@ -806,31 +2240,90 @@ function SearchBar({ instance, SearchBarComponent }: { instance: Instance; Searc
         };
     }, []);
 
+    // Discord's list is put back whenever the search is cleared
+    const showingResults = instance.props.favorites !== instance.props.favCopy;
+
     return (
-        <SearchBarComponent
-            ref={ref}
-            autoFocus={true}
-            size="md"
-            className=""
-            onChange={onChange}
-            onClear={() => {
-                // Clear debounce timeout when clearing
-                if (debounceTimeoutRef.current) {
-                    clearTimeout(debounceTimeoutRef.current);
-                }
-                // Cancel any ongoing request when clearing
-                if (abortControllerRef.current) {
-                    abortControllerRef.current.abort();
-                }
-                setQuery("");
-                setDebouncedQuery("");
-                if (instance.props.favCopy != null) {
-                    instance.props.favorites = instance.props.favCopy;
-                    instance.forceUpdate();
-                }
-            }}
-            query={query}
-            placeholder="CLIP Search Favorite Gifs"
-        />
+        <>
+            <SearchBarComponent
+                ref={ref}
+                autoFocus={true}
+                size="md"
+                className=""
+                onChange={onChange}
+                onClear={() => {
+                    // Clear debounce timeout when clearing
+                    if (debounceTimeoutRef.current) {
+                        clearTimeout(debounceTimeoutRef.current);
+                    }
+                    // Cancel any ongoing request when clearing
+                    if (abortControllerRef.current) {
+                        abortControllerRef.current.abort();
+                    }
+                    commitHistory();
+                    historyIndexRef.current = -1;
+                    setQuery("");
+                    setDebouncedQuery("");
+                    setSimilarTo(null);
+                    setQueryError(null);
+                    setResultDecorations(null);
+                    if (instance.props.favCopy != null) {
+                        instance.props.favorites = instance.props.favCopy;
+                        instance.forceUpdate();
+                    }
+                }}
+                query={query}
+                placeholder="CLIP Search Favorite Gifs"
+            />
+            {similarTo && <SimilarChip gif={similarTo} onRemove={clearSimilar} />}
+            {!similarTo && (
+                <FormatFilterChips
+                    query={query}
+                    onSelect={format => {
+                        historyIndexRef.current = -1;
+                        runQuery(withFormatFilter(query, format), 0);
+                    }}
+                />
+            )}
+            <SavedQueryChips
+                saved={savedQueries}
+                query={query}
+                onSelect={selectSavedQuery}
+                onSave={() => {
+                    saveQuery(query);
+                    setSavedQueries(getSavedQueries());
+                }}
+                onRemove={savedQuery => {
+                    removeSavedQuery(savedQuery);
+                    setSavedQueries(getSavedQueries());
+                }}
+            />
+            {showingResults && (
+                <Clickable onClick={() => setCompare(!compare)} style={{ marginTop: 4, width: "fit-content" }}>
+                    <Text variant={"text-xs/normal"} style={{ color: "var(--text-link)" }}>
+                        {compare ? "Hide model comparison" : "Compare models"}
+                    </Text>
+                </Clickable>
+            )}
+            {showingResults && compare && outcome && (
+                <ModelComparison
+                    outcome={outcome}
+                    favorites={instance.props.favCopy}
+                    exclude={similarTo}
+                    onWeightsChanged={() => setWeightsVersion(version => version + 1)}
+                />
+            )}
+            <IndexingIndicator />
+            {queryError && (
+                <Text variant={"text-xs/normal"} style={{ marginTop: 4, color: "var(--status-danger)" }}>
+                    {queryError}
+                </Text>
+            )}
+            {showingResults && outcome?.rankedOnServer && (
+                <Text variant={"text-xs/normal"} style={{ marginTop: 4, color: "var(--status-warning)" }}>
+                    Local search isn't available, the server can't share embeddings or they couldn't be downloaded, so this search was sent to the server
+                </Text>
+            )}
+        </>
     );
 }
@@ -0,0 +1,98 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { settings } from ".";
+import type { MediaKind } from "./media";
+
+// What each account has synced to the server and what it is still uploading, kept per user id in private settings
+// so switching accounts neither re-uploads everything nor mistakes one account's index for another's
+
+export interface SyncState {
+    userId: string;
+    favorites: string[];
+    models: string[];
+}
+
+export interface IndexBatch {
+    method: "POST" | "DELETE";
+    names: string[];
+    media_srcs?: string[];
+    media_types?: MediaKind[];
+    models: string[];
+}
+
+// An upload that hasn't finished yet, persisted so it resumes where it stopped after a failure or restart
+export interface PendingUpload {
+    userId: string;
+    batches: IndexBatch[];
+    completed: number;
+    target: SyncState;
+    // Names the server refused outright, counted as done so they aren't sent again and again
+    rejected?: string[];
+}
+
+function withoutUser<T>(record: Record<string, T> | undefined, userId: string): Record<string, T> {
+    const { [userId]: _, ...rest } = record ?? {};
+    return rest;
+}
+
+// Earlier versions kept a single sync state and upload for whichever account synced last
+export function migrateIndexState() {
+    const { store } = settings;
+    if (store.syncState) {
+        store.syncStates = { [store.syncState.userId]: store.syncState, ...store.syncStates };
+        delete store.syncState;
+    }
+    if (store.pendingUpload) {
+        store.pendingUploads = { [store.pendingUpload.userId]: store.pendingUpload, ...store.pendingUploads };
+        delete store.pendingUpload;
+    }
+}
+
+// The last synced favourites and models, empty if the account never synced
+export function getSyncState(userId: string): SyncState {
+    return settings.store.syncStates?.[userId] ?? { userId, favorites: [], models: [] };
+}
+
+export function hasSyncState(userId: string): boolean {
+    return settings.store.syncStates?.[userId] != null;
+}
+
+export function getSyncStates(): SyncState[] {
+    return Object.values(settings.store.syncStates ?? {});
+}
+
+export function setSyncState(state: SyncState) {
+    settings.store.syncStates = { ...settings.store.syncStates, [state.userId]: state };
+}
+
+export function clearSyncState(userId: string) {
+    settings.store.syncStates = withoutUser(settings.store.syncStates, userId);
+}
+
+export function getPendingUpload(userId: string): PendingUpload | undefined {
+    return settings.store.pendingUploads?.[userId];
+}
+
+export function setPendingUpload(upload: PendingUpload) {
+    settings.store.pendingUploads = { ...settings.store.pendingUploads, [upload.userId]: upload };
+}
+
+export function clearPendingUpload(userId: string) {
+    settings.store.pendingUploads = withoutUser(settings.store.pendingUploads, userId);
+}
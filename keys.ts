@@ -0,0 +1,120 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { UserStore } from "@webpack/common";
+
+import { sendIndexRequest, settings, stopUpload } from ".";
+import { getApiClient } from "./api";
+import { getFavoriteGifs } from "./favorites";
+import { clearPendingUpload, clearSyncState } from "./indexState";
+
+export const ACCOUNT_KEY_LENGTH = 32;
+const KEY_CHARSET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+// Largest multiple of the charset size that fits in a byte, bytes above it are rejected to avoid modulo bias
+const MAX_UNBIASED_BYTE = 256 - (256 % KEY_CHARSET.length);
+
+export interface RotationResult {
+    // The server moved the index to the new key, so nothing has to be uploaded again
+    migrated: boolean;
+    // Favourites are being uploaded under the new key, not when automatic indexing is off
+    reindexing: boolean;
+    // The server can revoke keys, otherwise the old key keeps working after a re-index
+    revocable: boolean;
+}
+
+// The account's key, null if it has none or one of the wrong length, e.g. a mistyped one
+export function getAccountKey(userId: string): string | null {
+    const key = settings.store.accountKeys?.[userId];
+    return key?.length === ACCOUNT_KEY_LENGTH ? key : null;
+}
+
+// Account keys are the only thing protecting a user's index, so they come from a CSPRNG
+export function generateAccountKey(): string {
+    let key = "";
+    const bytes = new Uint8Array(ACCOUNT_KEY_LENGTH * 2);
+
+    while (key.length < ACCOUNT_KEY_LENGTH) {
+        crypto.getRandomValues(bytes);
+        for (const byte of bytes) {
+            if (byte >= MAX_UNBIASED_BYTE) continue;
+            key += KEY_CHARSET[byte % KEY_CHARSET.length];
+            if (key.length === ACCOUNT_KEY_LENGTH) break;
+        }
+    }
+
+    return key;
+}
+
+// Replace the current account's key without losing search: the server moves the index to the new key if it can,
+// otherwise favourites are re-indexed under the new key and the old one is revoked once that upload finishes.
+// With automatic indexing off nothing is uploaded until it's turned back on, the old key waits until then.
+export async function rotateAccountKey(): Promise<RotationResult> {
+    const s = settings.store.accountKeys ??= {};
+    const id = UserStore.getCurrentUser().id;
+    const client = getApiClient();
+    // Throws if the server can't be reached, rather than guessing what it supports
+    const { capabilities } = await client.getServerInfo();
+    const revocable = capabilities.includes("revoke");
+
+    // A running upload would keep sending to the old key and then mark the account synced under the new one
+    await stopUpload();
+
+    const oldKey = getAccountKey(id);
+    const newKey = generateAccountKey();
+
+    if (oldKey && capabilities.includes("migrate")) {
+        await client.migrate(oldKey, newKey);
+        s[id] = newKey;
+        // the server removes the old key as part of the move, but revoke it anyway in case it kept a copy
+        if (revocable) {
+            await client.revoke(oldKey).catch(e => console.error("Error revoking old account key:", e));
+        }
+        return { migrated: true, reindexing: false, revocable };
+    }
+
+    s[id] = newKey;
+
+    // Start over under the new key, dropping any upload that was still going to the old one
+    clearSyncState(id);
+    clearPendingUpload(id);
+    if (oldKey && revocable) {
+        settings.store.pendingRevocations = { ...settings.store.pendingRevocations, [id]: oldKey };
+    }
+
+    // Turned off e.g. by deleting all data, the favourites mustn't be uploaded against that choice
+    const reindexing = settings.store.auto_index;
+    if (reindexing) sendIndexRequest(getFavoriteGifs());
+    return { migrated: false, reindexing, revocable };
+}
+
+// Revoke the old key of a rotation once the favourites have been uploaded under the new one
+export async function revokePendingKey(userId: string) {
+    const oldKey = settings.store.pendingRevocations?.[userId];
+    if (!oldKey) return;
+
+    // Stays pending if the server can't be reached, only a server that will never revoke keys drops it
+    const client = getApiClient();
+    if ((await client.getServerInfo()).capabilities.includes("revoke")) {
+        await client.revoke(oldKey);
+    } else {
+        console.warn("The CLIP server can't revoke keys, the old account key stays valid");
+    }
+
+    const { [userId]: _, ...rest } = settings.store.pendingRevocations ?? {};
+    settings.store.pendingRevocations = rest;
+}
@@ -0,0 +1,127 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as DataStore from "@api/DataStore";
+import { UserStore } from "@webpack/common";
+
+import { settings } from ".";
+import { getApiClient } from "./api";
+import { buildRankingMaps, ModelResults } from "./fusion";
+
+// Learns model weights from the search results the user actually picks. Picks are kept in IndexedDB rather than
+// settings so they never leave this device, not even through settings sync.
+
+export interface SearchPick {
+    at: number;
+    // Rank of the picked GIF for every model that was searched, null if that model didn't return it
+    ranks: Record<string, number | null>;
+}
+
+const STORE_PREFIX = "ClipFavGifSearch_picks";
+const MAX_PICKS = 200;
+// Don't tune on a handful of picks, they say more about the queries than the models
+export const MIN_PICKS_TO_TUNE = 10;
+// Tuned weights never reach 0, a model at 0 is no longer searched so it could never earn weight back
+const MIN_WEIGHT = 0.05;
+// Rank at which a model gets half the credit of ranking the pick first
+const RANK_HALF_CREDIT = 10;
+// How much a manual nudge raises the chosen model, the other models in use lose half as much
+const NUDGE_STEP = 0.1;
+
+function storeKey(): string {
+    return `${STORE_PREFIX}_${UserStore.getCurrentUser().id}`;
+}
+
+export async function getPicks(): Promise<SearchPick[]> {
+    return await DataStore.get(storeKey()) ?? [];
+}
+
+// The best rank each searched model gave the GIF across the queries of one search, 0 = best, ranked as fusion ranks
+function getModelRanks(modelResults: ModelResults[], url: string): Record<string, number | null> {
+    const ranks: Record<string, number | null> = {};
+    for (const results of modelResults) {
+        for (const [model, rankings] of Object.entries(buildRankingMaps(results))) {
+            const rank = (rankings.get(url) ?? 0) - 1;
+            const best = ranks[model];
+            if (rank !== -1 && (best == null || rank < best)) ranks[model] = rank;
+            else if (!(model in ranks)) ranks[model] = null;
+        }
+    }
+    return ranks;
+}
+
+export async function recordPick(modelResults: ModelResults[], url: string) {
+    const ranks = getModelRanks(modelResults, url);
+    // nothing to learn from keyword-only results
+    if (Object.values(ranks).every(rank => rank === null)) return;
+
+    const picks = [...await getPicks(), { at: Date.now(), ranks }].slice(-MAX_PICKS);
+    await DataStore.set(storeKey(), picks);
+
+    if (settings.store.auto_tune) await applyLearnedWeights(picks);
+}
+
+// Average credit per model over the picks it was searched in, scaled so the best model gets 1
+export function learnWeights(picks: SearchPick[]): Record<string, number> | null {
+    if (picks.length < MIN_PICKS_TO_TUNE) return null;
+
+    const totals: Record<string, { credit: number; count: number; }> = {};
+    for (const { ranks } of picks) {
+        for (const [model, rank] of Object.entries(ranks)) {
+            const total = totals[model] ??= { credit: 0, count: 0 };
+            total.credit += rank === null ? 0 : RANK_HALF_CREDIT / (RANK_HALF_CREDIT + rank);
+            total.count++;
+        }
+    }
+
+    const credits = Object.entries(totals).map(([model, { credit, count }]) => [model, credit / count] as const);
+    const best = Math.max(...credits.map(([, credit]) => credit));
+    if (!(best > 0)) return null;
+
+    return Object.fromEntries(credits.map(([model, credit]) => [model, Math.max(MIN_WEIGHT, Math.round(credit / best * 100) / 100)]));
+}
+
+// Set the weights of the models in use to the learned ones, models turned off stay off
+export async function applyLearnedWeights(picks?: SearchPick[]): Promise<boolean> {
+    const learned = learnWeights(picks ?? await getPicks());
+    if (!learned) return false;
+
+    const weights: Record<string, number> = { ...settings.store.modelWeights };
+    for (const [model, weight] of Object.entries(learned)) {
+        if (weights[model] > 0) weights[model] = weight;
+    }
+    settings.store.modelWeights = weights;
+    return true;
+}
+
+// "This model got it right" from the comparison view: move weight towards the model from the other ones in use
+export function nudgeWeights(model: string) {
+    const weights: Record<string, number> = { ...settings.store.modelWeights };
+    for (const [name, weight] of Object.entries(weights)) {
+        if (name === model) weights[name] = Math.min(1, Math.round((weight + NUDGE_STEP) * 100) / 100);
+        else if (weight > 0) weights[name] = Math.max(MIN_WEIGHT, Math.round((weight - NUDGE_STEP / 2) * 100) / 100);
+    }
+    settings.store.modelWeights = weights;
+}
+
+// Forget every pick and go back to the server's recommended weights
+export async function resetLearning() {
+    const defaults = await getApiClient().getModels();
+    await DataStore.del(storeKey());
+    settings.store.modelWeights = { ...settings.store.modelWeights, ...defaults };
+}
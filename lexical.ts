@@ -0,0 +1,136 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { Gif } from ".";
+import type { FusedResult } from "./fusion";
+
+// Client-side keyword search over the words found in GIF urls (Tenor slugs like "cat-dance-gif-123" carry useful words)
+
+// Words that appear in nearly every url and say nothing about the content
+const STOP_WORDS = new Set([
+    "http", "https", "www", "com", "net", "co", "view", "media", "images", "attachments", "external",
+    "tenor", "giphy", "discordapp", "cdn", "gif", "gifs", "mp4", "webm", "webp", "png", "jpg", "jpeg",
+    "format", "width", "height", "ex", "is", "hm", "the", "a", "an", "and", "of", "to"
+]);
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Query words that only match the start of a url word count for less than whole words
+const PREFIX_MATCH_FACTOR = 0.7;
+
+export interface LexicalIndex {
+    // url -> token -> occurrences
+    docs: Map<string, Map<string, number>>;
+    // token -> number of GIFs containing it
+    docFreq: Map<string, number>;
+    avgLength: number;
+}
+
+export function tokenize(text: string): string[] {
+    let decoded = text;
+    try {
+        decoded = decodeURIComponent(text);
+    } catch {
+        // keep the raw text if it isn't valid percent-encoding
+    }
+
+    return decoded
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        // drop ids, hashes and query-string noise that only contain digits or are unreasonably long
+        .filter(token => token.length > 1 && token.length <= 32 && !/^\d+$/.test(token) && !STOP_WORDS.has(token));
+}
+
+export function buildLexicalIndex(gifs: Gif[]): LexicalIndex {
+    const docs = new Map<string, Map<string, number>>();
+    const docFreq = new Map<string, number>();
+    let totalLength = 0;
+
+    for (const gif of gifs) {
+        const tokens = [...tokenize(gif.url), ...tokenize(gif.src)];
+        const counts = new Map<string, number>();
+        for (const token of tokens) counts.set(token, (counts.get(token) ?? 0) + 1);
+
+        for (const token of counts.keys()) docFreq.set(token, (docFreq.get(token) ?? 0) + 1);
+        docs.set(gif.url, counts);
+        totalLength += tokens.length;
+    }
+
+    return { docs, docFreq, avgLength: docs.size > 0 ? totalLength / docs.size : 0 };
+}
+
+// Score every GIF containing at least one query word with BM25, best first
+export function searchLexical(index: LexicalIndex, query: string): FusedResult[] {
+    const queryTokens = [...new Set(tokenize(query))];
+    if (queryTokens.length === 0) return [];
+
+    const docCount = index.docs.size;
+    const results: FusedResult[] = [];
+
+    for (const [url, counts] of index.docs) {
+        let length = 0;
+        for (const count of counts.values()) length += count;
+
+        let score = 0;
+        for (const queryToken of queryTokens) {
+            for (const [token, count] of counts) {
+                let factor: number;
+                if (token === queryToken) factor = 1;
+                else if (token.startsWith(queryToken)) factor = PREFIX_MATCH_FACTOR;
+                else continue;
+
+                const df = index.docFreq.get(token) ?? 0;
+                const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+                const tf = count * (K1 + 1) / (count + K1 * (1 - B + B * length / (index.avgLength || 1)));
+                score += factor * idf * tf;
+            }
+        }
+
+        if (score > 0) results.push({ url, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score);
+}
+
+// The index only depends on the favourites list, so build it once per list
+const indexCache = new WeakMap<Gif[], LexicalIndex>();
+
+export function getLexicalIndex(gifs: Gif[]): LexicalIndex {
+    let index = indexCache.get(gifs);
+    if (!index) {
+        index = buildLexicalIndex(gifs);
+        indexCache.set(gifs, index);
+    }
+    return index;
+}
+
+// Append GIFs that match the query by keyword but weren't in the CLIP results, e.g. because the server is
+// still downloading or processing them, so they stay findable below the CLIP hits.
+// ranked is everything CLIP ranked, cut off or not, so keyword matches can't bring back what the cutoff dropped.
+export function withLexicalMatches(clipGifs: Gif[], favorites: Gif[], query: string, ranked: Gif[] = clipGifs): Gif[] {
+    const seen = new Set(ranked.map(gif => gif.url));
+    const byUrl = new Map(favorites.map(gif => [gif.url, gif]));
+
+    const extra = searchLexical(getLexicalIndex(favorites), query)
+        .filter(({ url }) => !seen.has(url))
+        .map(({ url }) => byUrl.get(url))
+        .filter(Boolean) as Gif[];
+
+    return [...clipGifs, ...extra];
+}
@@ -0,0 +1,189 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as DataStore from "@api/DataStore";
+
+import { getApiClient, SearchQuery } from "./api";
+import type { ModelResults } from "./fusion";
+
+// Offline search: GIF embeddings are downloaded once per model and kept in IndexedDB, then queries are ranked
+// on this device by cosine similarity. Only text embeddings still come from the server, and those are cached.
+
+export interface ModelEmbeddings {
+    syncedAt: number;
+    // name -> unit length embedding
+    vectors: Map<string, Float32Array>;
+}
+
+const STORE_PREFIX = "ClipFavGifSearch_embeddings";
+const MAX_TEXT_EMBEDDINGS = 200;
+
+// userId:model -> embeddings, null when nothing is stored
+const loaded = new Map<string, ModelEmbeddings | null>();
+// model + text -> embedding, least recently used first
+const textEmbeddings = new Map<string, Float32Array>();
+// When the server's index last changed, copies downloaded before then get refreshed
+let staleSince = 0;
+// userId:model -> its running download, so searches share downloads without waiting on unrelated ones
+const syncing = new Map<string, Promise<void>>();
+
+function storeKey(userId: string, model: string): string {
+    return `${STORE_PREFIX}_${userId}_${model}`;
+}
+
+function normalize(vector: number[]): Float32Array {
+    const result = Float32Array.from(vector);
+    const norm = Math.hypot(...result);
+    if (norm > 0) result.forEach((v, i) => result[i] = v / norm);
+    return result;
+}
+
+// Cosine similarity, as every stored vector is unit length
+export function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length && i < b.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+async function loadModel(userId: string, model: string): Promise<ModelEmbeddings | null> {
+    const id = `${userId}:${model}`;
+    if (!loaded.has(id)) loaded.set(id, await DataStore.get(storeKey(userId, model)) ?? null);
+    return loaded.get(id)!;
+}
+
+// Download the embeddings of the given models and replace the local copy with them
+export async function syncEmbeddings(userId: string, key: string, models: string[], signal?: AbortSignal) {
+    // The server's index as of the request, changes during the download aren't necessarily in it
+    const syncedAt = Date.now();
+    const embeddings = await getApiClient().getEmbeddings(key, models, signal);
+
+    for (const model of models) {
+        const data: ModelEmbeddings = {
+            syncedAt,
+            vectors: new Map(Object.entries(embeddings[model] ?? {}).map(([name, vector]) => [name, normalize(vector)]))
+        };
+        await DataStore.set(storeKey(userId, model), data);
+        loaded.set(`${userId}:${model}`, data);
+    }
+}
+
+export function markEmbeddingsStale() {
+    staleSince = Date.now();
+}
+
+// Whether the server's index changed since this copy was downloaded
+export function isEmbeddingsStale(embeddings: ModelEmbeddings): boolean {
+    return embeddings.syncedAt <= staleSince;
+}
+
+export async function getLocalEmbeddings(userId: string, models: string[]): Promise<Record<string, ModelEmbeddings | null>> {
+    return Object.fromEntries(await Promise.all(models.map(async model => [model, await loadModel(userId, model)] as const)));
+}
+
+export async function clearLocalEmbeddings(userId: string, models?: string[]) {
+    const prefix = `${STORE_PREFIX}_${userId}_`;
+    const keys = models
+        ? models.map(model => storeKey(userId, model))
+        : (await DataStore.keys() as IDBValidKey[]).filter((key): key is string => typeof key === "string" && key.startsWith(prefix));
+
+    for (const key of keys) {
+        await DataStore.del(key);
+        loaded.delete(`${userId}:${key.slice(prefix.length)}`);
+    }
+}
+
+async function embedText(text: string, models: string[], signal?: AbortSignal): Promise<Record<string, Float32Array>> {
+    const result: Record<string, Float32Array> = {};
+    for (const model of models) {
+        const cached = textEmbeddings.get(`${model}\n${text}`);
+        if (cached) result[model] = cached;
+    }
+
+    const missing = models.filter(model => !result[model]);
+    if (missing.length > 0) {
+        const embeddings = await getApiClient().embedText(text, missing, signal);
+        for (const model of missing) {
+            if (embeddings[model]) result[model] = normalize(embeddings[model]);
+        }
+    }
+
+    // Refresh the recency of everything used, then drop the oldest
+    for (const [model, embedding] of Object.entries(result)) {
+        const key = `${model}\n${text}`;
+        textEmbeddings.delete(key);
+        textEmbeddings.set(key, embedding);
+    }
+    while (textEmbeddings.size > MAX_TEXT_EMBEDDINGS) textEmbeddings.delete(textEmbeddings.keys().next().value!);
+
+    return result;
+}
+
+// Download the models that aren't already being downloaded, settles once every given model's download has
+function startSync(userId: string, key: string, models: string[]): Promise<void> {
+    const id = (model: string) => `${userId}:${model}`;
+    const toStart = models.filter(model => !syncing.has(id(model)));
+
+    if (toStart.length > 0) {
+        const sync = getApiClient().supports("embeddings")
+            .then(supported => supported ? syncEmbeddings(userId, key, toStart) : undefined)
+            .catch(error => {
+                console.error("Error downloading GIF embeddings:", error);
+            })
+            .finally(() => toStart.forEach(model => syncing.delete(id(model))));
+        toStart.forEach(model => syncing.set(id(model), sync));
+    }
+
+    return Promise.all(models.map(model => syncing.get(id(model)))).then(() => undefined);
+}
+
+// Rank favourites locally, in the same shape as a server search. Returns null when it can't be done locally,
+// e.g. the server has no embeddings endpoint and nothing was downloaded before.
+export async function searchLocal(userId: string, key: string, query: SearchQuery, models: string[], signal?: AbortSignal): Promise<ModelResults | null> {
+    let embeddings = await getLocalEmbeddings(userId, models);
+    const missing = models.filter(model => !embeddings[model]);
+    const outdated = models.filter(model => embeddings[model] && isEmbeddingsStale(embeddings[model]!));
+
+    if (missing.length > 0 || outdated.length > 0) {
+        const sync = startSync(userId, key, [...missing, ...outdated]);
+
+        // Models that were never downloaded have to wait, stale ones keep searching on the old copy meanwhile
+        if (missing.length > 0) {
+            await sync;
+            embeddings = await getLocalEmbeddings(userId, models);
+        }
+    }
+
+    const available = models.filter(model => embeddings[model]);
+    if (available.length === 0) return null;
+
+    const queryVectors: Record<string, Float32Array | undefined> = "text" in query
+        ? await embedText(query.text, available, signal)
+        : Object.fromEntries(available.map(model => [model, embeddings[model]!.vectors.get(query.name)]));
+
+    const results: ModelResults = {};
+    for (const model of available) {
+        const queryVector = queryVectors[model];
+        if (!queryVector) continue;
+
+        results[model] = [...embeddings[model]!.vectors]
+            .map(([name, vector]): [string, number] => [name, 1 - dot(queryVector, vector)])
+            .sort((a, b) => a[1] - b[1]);
+    }
+    // e.g. a "more like this" GIF that wasn't downloaded yet, let the server handle it
+    return Object.keys(results).length > 0 ? results : null;
+}
@@ -0,0 +1,63 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { Gif, GifFormat } from ".";
+
+// What kind of media a favourite is and whether its host may be indexed
+
+export type MediaKind = "gif" | "video" | "image";
+
+export const MEDIA_KINDS: MediaKind[] = ["gif", "video", "image"];
+
+// *. matches the domain and any subdomain of it
+export const DEFAULT_ALLOWED_HOSTS = "*.discordapp.net, cdn.discordapp.com, media.tenor.co, *.giphy.com";
+// All a server without the "media-types" capability takes, whatever is allowed in the settings
+export const LEGACY_ALLOWED_HOSTS = ["*.discordapp.net", "media.tenor.co"];
+
+// GIF sites serve their GIFs as MP4s, they're still GIFs to whoever favourited them
+const GIF_HOSTS = ["tenor.com", "tenor.co", "giphy.com"];
+
+function getHost(url: string): string | null {
+    try {
+        return new URL(url).hostname.toLowerCase();
+    } catch {
+        return null;
+    }
+}
+
+function isOnDomain(host: string, domain: string): boolean {
+    return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function getMediaKind(gif: Gif): MediaKind {
+    const hosts = [getHost(gif.url), getHost(gif.src)];
+    if (hosts.some(host => host && GIF_HOSTS.some(domain => isOnDomain(host, domain)))) return "gif";
+    if (gif.format === GifFormat.VIDEO) return "video";
+
+    const path = gif.src.split(/[?#]/)[0].toLowerCase();
+    return path.endsWith(".gif") ? "gif" : "image";
+}
+
+export function parseHostList(list: string): string[] {
+    return list.split(/[\s,]+/).map(host => host.trim().toLowerCase()).filter(Boolean);
+}
+
+export function isHostAllowed(host: string, allowed: string[]): boolean {
+    host = host.toLowerCase();
+    return allowed.some(pattern => pattern.startsWith("*.") ? isOnDomain(host, pattern.slice(2)) : host === pattern);
+}
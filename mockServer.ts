@@ -0,0 +1,291 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { Capability, ClipApiClient, StatusCounts } from "./api";
+import type { MediaKind } from "./media";
+
+// In-process imitation of the CLIP GIF search server, for exercising the plugin logic without the hosted instance:
+//   const server = new MockClipServer({ deferProcessing: true });
+//   const client = server.createClient();
+
+export const enum MockStatus {
+    FAILED = 0,
+    DOWNLOADING = 1,
+    PROCESSING = 2,
+    COMPLETED = 3
+}
+
+export interface MockEntry {
+    src: string;
+    type?: MediaKind;
+    status: MockStatus;
+    error?: string;
+}
+
+export interface MockServerOptions {
+    models?: Record<string, number>;
+    capabilities?: Capability[];
+    // Behave like a server from before /version existed
+    legacy?: boolean;
+    // Leave new entries Downloading until process() is called
+    deferProcessing?: boolean;
+}
+
+export interface MockRequest {
+    method: string;
+    path: string;
+    body?: any;
+}
+
+const DEFAULT_MODELS = { "VideoCLIP-XL-v2": 1, "ViCLIP-L-14": 0 };
+const ALL_CAPABILITIES: Capability[] = ["unindex", "search-by-name", "failures", "migrate", "revoke", "usage", "delete-data", "embeddings", "media-types"];
+const EMBEDDING_SIZE = 32;
+
+function json(data: unknown, status = 200): Response {
+    return new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function words(text: string): Set<string> {
+    return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+}
+
+// Fake "embedding distance": 1 - word overlap, so results are deterministic and loosely meaningful
+function distance(a: string, b: string): number {
+    const wordsA = words(a);
+    const wordsB = words(b);
+    let shared = 0;
+    wordsA.forEach(word => wordsB.has(word) && shared++);
+    const union = new Set([...wordsA, ...wordsB]).size;
+    return union === 0 ? 1 : 1 - shared / union;
+}
+
+// Fake embedding: hashed bag of words, so cosine similarity roughly follows distance() above
+function embed(text: string): number[] {
+    const vector = new Array<number>(EMBEDDING_SIZE).fill(0);
+    for (const word of words(text)) {
+        let h = 0;
+        for (let i = 0; i < word.length; i++) h = (h * 31 + word.charCodeAt(i)) | 0;
+        vector[Math.abs(h) % EMBEDDING_SIZE] += 1;
+    }
+    return vector;
+}
+
+export class MockClipServer {
+    static readonly BASE_URL = "http://mock.clip.server";
+
+    readonly models: Record<string, number>;
+    readonly capabilities: Capability[];
+    readonly legacy: boolean;
+    readonly deferProcessing: boolean;
+
+    // key -> model -> name -> entry
+    readonly indexes = new Map<string, Map<string, Map<string, MockEntry>>>();
+    readonly requests: MockRequest[] = [];
+
+    private failures: number[] = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this.models = options.models ?? DEFAULT_MODELS;
+        this.capabilities = options.capabilities ?? ALL_CAPABILITIES;
+        this.legacy = options.legacy ?? false;
+        this.deferProcessing = options.deferProcessing ?? false;
+    }
+
+    // A client talking to this server instead of the network
+    createClient(timeout?: number): ClipApiClient {
+        return new ClipApiClient({ baseUrl: MockClipServer.BASE_URL, timeout, fetch: this.fetch });
+    }
+
+    // Make the next requests fail with the given HTTP statuses, e.g. to test retries
+    failNext(...statuses: number[]) {
+        this.failures.push(...statuses);
+    }
+
+    // Finish downloading and processing every pending entry
+    process() {
+        for (const models of this.indexes.values()) {
+            for (const entries of models.values()) {
+                entries.forEach(entry => entry.status !== MockStatus.FAILED && (entry.status = MockStatus.COMPLETED));
+            }
+        }
+    }
+
+    // Mark indexed entries as failed, as if downloading or processing them went wrong
+    failEntries(key: string, model: string, names: string[], error = "Download failed") {
+        const entries = this.getEntries(key, model);
+        for (const name of names) {
+            const entry = entries.get(name);
+            if (entry) Object.assign(entry, { status: MockStatus.FAILED, error });
+        }
+    }
+
+    getEntries(key: string, model: string): Map<string, MockEntry> {
+        let models = this.indexes.get(key);
+        if (!models) this.indexes.set(key, models = new Map());
+        let entries = models.get(model);
+        if (!entries) models.set(model, entries = new Map());
+        return entries;
+    }
+
+    readonly fetch = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+        if (init.signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+
+        const url = new URL(input instanceof Request ? input.url : input.toString(), MockClipServer.BASE_URL);
+        const method = (init.method ?? "GET").toUpperCase();
+        const body = typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+        this.requests.push({ method, path: url.pathname + url.search, body });
+
+        const failure = this.failures.shift();
+        if (failure !== undefined) return json({ error: "mock failure" }, failure);
+
+        return this.route(method, url.pathname.split("/").filter(Boolean), url.searchParams, body);
+    };
+
+    protected route(method: string, parts: string[], params: URLSearchParams, body: any): Response {
+        if (method === "GET" && parts.length === 1 && parts[0] === "models") return json(this.models);
+        if (method === "GET" && parts.length === 1 && parts[0] === "version") {
+            if (this.legacy) return json({ error: "not found" }, 404);
+            return json({ version: "mock", protocol: 2, capabilities: this.capabilities });
+        }
+
+        if (method === "GET" && parts.length === 1 && parts[0] === "embed") {
+            if (!this.capabilities.includes("embeddings")) return json({ error: "not found" }, 404);
+            const text = params.get("text") ?? "";
+            const models = (params.get("models") ?? "").split(",").filter(Boolean);
+            return json({ embeddings: Object.fromEntries(models.map(model => [model, embed(text)])) });
+        }
+
+        if (parts.length === 1 && method === "DELETE") {
+            if (!this.capabilities.includes("revoke")) return json({ error: "method not allowed" }, 405);
+            this.indexes.delete(parts[0]);
+            return json({ status: "ok" });
+        }
+
+        if (parts.length !== 2) return json({ error: "not found" }, 404);
+        const [key, action] = parts;
+        if (key.length !== 32) return json({ error: "invalid key" }, 400);
+
+        switch (`${method} ${action}`) {
+            case "POST index": {
+                const { names, media_srcs, media_types, models } = body ?? {};
+                if (!Array.isArray(names) || !Array.isArray(media_srcs) || names.length !== media_srcs.length || !Array.isArray(models)) {
+                    return json({ error: "invalid body" }, 400);
+                }
+                if (media_types !== undefined && (!this.capabilities.includes("media-types") || !Array.isArray(media_types) || media_types.length !== names.length)) {
+                    return json({ error: "invalid media_types" }, 400);
+                }
+                for (const model of models) {
+                    const entries = this.getEntries(key, model);
+                    names.forEach((name: string, i: number) => entries.set(name, {
+                        src: media_srcs[i],
+                        type: media_types?.[i],
+                        status: this.deferProcessing ? MockStatus.DOWNLOADING : MockStatus.COMPLETED
+                    }));
+                }
+                return json({ status: "ok" });
+            }
+            case "DELETE index": {
+                if (this.legacy || !this.capabilities.includes("unindex")) return json({ error: "method not allowed" }, 405);
+                const { names, models } = body ?? {};
+                for (const model of models ?? []) {
+                    const entries = this.getEntries(key, model);
+                    (names ?? []).forEach((name: string) => entries.delete(name));
+                }
+                return json({ status: "ok" });
+            }
+            case "GET search": {
+                const models = (params.get("models") ?? "").split(",").filter(Boolean);
+                const k = Number(params.get("k") ?? 10);
+                const text = params.get("text");
+                const name = params.get("name");
+                if (text == null && (name == null || !this.capabilities.includes("search-by-name"))) {
+                    return json({ error: "invalid query" }, 400);
+                }
+
+                const results: Record<string, [string, number][]> = {};
+                for (const model of models) {
+                    const completed = [...this.getEntries(key, model)].filter(([, entry]) => entry.status === MockStatus.COMPLETED);
+                    if (name != null && !completed.some(([n]) => n === name)) return json({ error: "not indexed" }, 404);
+
+                    results[model] = completed
+                        .map(([n]): [string, number] => [n, distance(text ?? name!, n)])
+                        .sort((a, b) => a[1] - b[1])
+                        .slice(0, k);
+                }
+                return json({ results });
+            }
+            case "POST migrate": {
+                if (!this.capabilities.includes("migrate")) return json({ error: "not found" }, 404);
+                const newKey = body?.new_key;
+                if (typeof newKey !== "string" || newKey.length !== 32) return json({ error: "invalid key" }, 400);
+                if (this.indexes.has(newKey)) return json({ error: "key in use" }, 409);
+                this.indexes.set(newKey, this.indexes.get(key) ?? new Map());
+                this.indexes.delete(key);
+                return json({ status: "ok" });
+            }
+            case "GET usage": {
+                if (!this.capabilities.includes("usage")) return json({ error: "not found" }, 404);
+                const models: Record<string, { entries: number; bytes: number; }> = {};
+                for (const [model, entries] of this.indexes.get(key) ?? []) {
+                    let bytes = 0;
+                    entries.forEach((entry, name) => bytes += name.length + entry.src.length);
+                    models[model] = { entries: entries.size, bytes };
+                }
+                return json({ models });
+            }
+            case "DELETE data": {
+                if (!this.capabilities.includes("delete-data")) return json({ error: "method not allowed" }, 405);
+                const models = this.indexes.get(key);
+                if (Array.isArray(body?.models)) body.models.forEach((model: string) => models?.delete(model));
+                else this.indexes.delete(key);
+                return json({ status: "ok" });
+            }
+            case "GET embeddings": {
+                if (!this.capabilities.includes("embeddings")) return json({ error: "not found" }, 404);
+                const embeddings: Record<string, Record<string, number[]>> = {};
+                for (const model of (params.get("models") ?? "").split(",").filter(Boolean)) {
+                    embeddings[model] = Object.fromEntries([...this.getEntries(key, model)]
+                        .filter(([, entry]) => entry.status === MockStatus.COMPLETED)
+                        .map(([name]) => [name, embed(name)]));
+                }
+                return json({ embeddings });
+            }
+            case "GET failed": {
+                if (!this.capabilities.includes("failures")) return json({ error: "not found" }, 404);
+                const failed: Record<string, { name: string; src: string; error: string; }[]> = {};
+                for (const model of (params.get("models") ?? "").split(",").filter(Boolean)) {
+                    failed[model] = [...this.getEntries(key, model)]
+                        .filter(([, entry]) => entry.status === MockStatus.FAILED)
+                        .map(([name, entry]) => ({ name, src: entry.src, error: entry.error ?? "Unknown error" }));
+                }
+                return json({ failed });
+            }
+            case "GET statuscounts": {
+                const counts: Record<string, StatusCounts> = {};
+                for (const [model, entries] of this.indexes.get(key) ?? []) {
+                    const modelCounts: StatusCounts = [0, 0, 0, 0];
+                    entries.forEach(entry => modelCounts[entry.status]++);
+                    counts[model] = modelCounts;
+                }
+                return json({ counts, status: "ok" });
+            }
+        }
+
+        return json({ error: "not found" }, 404);
+    }
+}
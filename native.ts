@@ -1,3 +1,83 @@
 import { CspPolicies, ConnectSrc } from "@main/csp";
+import { RendererSettings } from "@main/settings";
+import { dialog, IpcMainInvokeEvent } from "electron";
+
+export type AllowHostResult = "allowed" | "already-allowed" | "cancelled" | "invalid";
+
+export type ProbeResult =
+    | { ok: true; status: number; }
+    | { ok: false; kind: "network" | "tls" | "timeout" | "http"; message: string; };
+
+const PROBE_TIMEOUT = 10 * 1000;
 
 CspPolicies["gif-search.woodie.dev"] = ConnectSrc;
+
+// Only http(s) urls with a host can be used as the API
+function parseApiUrl(url: string): URL | null {
+    try {
+        const parsed = new URL(url);
+        if ((parsed.protocol !== "https:" && parsed.protocol !== "http:") || !parsed.hostname || parsed.username || parsed.password) return null;
+        return parsed;
+    } catch {
+        return null;
+    }
+}
+
+// Hosts without a scheme only match https in Discord's policy, so plain http servers need it spelled out
+function getPolicyHost(parsed: URL): string {
+    return parsed.protocol === "http:" ? `http://${parsed.host}` : parsed.host;
+}
+
+// Re-register the custom server the user already approved, as the policy is applied before the renderer starts
+const pluginSettings = RendererSettings.store.plugins?.ClipFavGifSearch;
+if (pluginSettings?.api_url) {
+    const parsed = parseApiUrl(pluginSettings.api_url);
+    if (parsed && pluginSettings.approvedHosts?.includes(getPolicyHost(parsed))) {
+        CspPolicies[getPolicyHost(parsed)] = ConnectSrc;
+    }
+}
+
+export function isApiHostAllowed(_: IpcMainInvokeEvent, url: string): boolean {
+    const parsed = parseApiUrl(url);
+    return parsed != null && CspPolicies[getPolicyHost(parsed)] != null;
+}
+
+// Ask the user to confirm before letting Discord connect to a new API host
+export async function allowApiHost(_: IpcMainInvokeEvent, url: string): Promise<{ result: AllowHostResult; host?: string; }> {
+    const parsed = parseApiUrl(url);
+    if (!parsed) return { result: "invalid" };
+
+    const host = getPolicyHost(parsed);
+    if (CspPolicies[host]) return { result: "already-allowed", host };
+
+    const { response } = await dialog.showMessageBox({
+        type: "question",
+        title: "ClipFavGifSearch",
+        message: `Allow ClipFavGifSearch to connect to ${host}?`,
+        detail: "Your favourite GIF links and search queries will be sent to this server. Only allow servers you trust.",
+        buttons: ["Cancel", "Allow"],
+        defaultId: 1,
+        cancelId: 0
+    });
+    if (response !== 1) return { result: "cancelled", host };
+
+    CspPolicies[host] = ConnectSrc;
+    return { result: "allowed", host };
+}
+
+// Fetch /models from the main process, which isn't subject to the CSP, to tell TLS and HTTP failures apart
+export async function probeApi(_: IpcMainInvokeEvent, url: string): Promise<ProbeResult> {
+    try {
+        // Trailing slashes stripped like the API client does, or this would probe //models
+        const response = await fetch(`${url.replace(/\/+$/, "")}/models`, { signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+        if (!response.ok) return { ok: false, kind: "http", message: `HTTP error! status: ${response.status}` };
+        return { ok: true, status: response.status };
+    } catch (error: any) {
+        if (error?.name === "TimeoutError") return { ok: false, kind: "timeout", message: `No response after ${PROBE_TIMEOUT / 1000} seconds` };
+
+        const code: string = error?.cause?.code ?? "";
+        const message = error?.cause?.message ?? error?.message ?? String(error);
+        if (/CERT|SSL|TLS|EPROTO/.test(code)) return { ok: false, kind: "tls", message: `${code}: ${message}` };
+        return { ok: false, kind: "network", message: code ? `${code}: ${message}` : message };
+    }
+}
@@ -0,0 +1,53 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { settings } from ".";
+
+// Named sets of model weights, e.g. "accurate" or "text-heavy", to switch between without moving every slider
+
+export function getWeightPresets(): Record<string, Record<string, number>> {
+    return settings.store.weightPresets ?? {};
+}
+
+// Save the current weights under a name, replacing a preset with the same name
+export function saveWeightPreset(name: string) {
+    name = name.trim();
+    if (!name) return;
+    settings.store.weightPresets = { ...settings.store.weightPresets, [name]: { ...settings.store.modelWeights } };
+}
+
+// Models the preset doesn't know about, e.g. ones the server added since, keep their current weight
+export function applyWeightPreset(name: string): boolean {
+    const preset = getWeightPresets()[name];
+    if (!preset) return false;
+    settings.store.modelWeights = { ...settings.store.modelWeights, ...preset };
+    return true;
+}
+
+export function deleteWeightPreset(name: string) {
+    const { [name]: _, ...rest } = getWeightPresets();
+    settings.store.weightPresets = rest;
+}
+
+// The preset matching the current weights, if any
+export function getActivePreset(): string | null {
+    const weights: Record<string, number> = settings.store.modelWeights ?? {};
+    const match = Object.entries(getWeightPresets())
+        .find(([, preset]) => Object.entries(preset).every(([model, weight]) => (weights[model] ?? 0) === weight));
+    return match?.[0] ?? null;
+}
@@ -0,0 +1,247 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { Gif } from ".";
+import type { FusedResult } from "./fusion";
+import { getMediaKind, MEDIA_KINDS, MediaKind } from "./media";
+
+// Small query language for the search bar:
+//   cat dance           plain words are sent to the server as one query
+//   "cat" "dancing"     each quoted phrase is its own query, results are merged
+//   -dog -"dog park"    GIFs matching an excluded term are pushed down the ranking
+//   model:<name>        only use the given model(s) for this query, ignoring modelWeights
+//   ratio:wide|tall|square, min:WxH   filter on the GIF's dimensions
+//   format:gif|video|image             filter on the kind of media
+
+export type AspectRatio = "wide" | "tall" | "square";
+
+export interface ParsedQuery {
+    // text queries whose results are merged
+    include: string[];
+    // text queries whose matches are pushed down
+    exclude: string[];
+    // pinned models, empty to use modelWeights
+    models: string[];
+    ratio?: AspectRatio;
+    minWidth?: number;
+    minHeight?: number;
+    format?: MediaKind;
+}
+
+export type QueryParseResult =
+    | { ok: true; query: ParsedQuery; }
+    | { ok: false; error: string; };
+
+// width / height above this is wide, below its inverse is tall
+const WIDE_RATIO = 1.2;
+// How strongly a fully matching excluded term lowers a GIF's score, relative to a perfect match
+const EXCLUDE_PENALTY = 1;
+
+const FILTERS = ["model", "ratio", "min", "format"];
+
+interface Token {
+    text: string;
+    quoted: boolean;
+    negated: boolean;
+    position: number;
+    // index just past the token in the input
+    end: number;
+}
+
+function tokenizeQuery(input: string): Token[] | string {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) {
+            i++;
+            continue;
+        }
+
+        const position = i;
+        let negated = false;
+        if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+            negated = true;
+            i++;
+        }
+
+        if (input[i] === "\"") {
+            const end = input.indexOf("\"", i + 1);
+            if (end === -1) return `Missing closing quote for the phrase at position ${i + 1}`;
+
+            const text = input.slice(i + 1, end).trim();
+            if (!text) return `Empty phrase at position ${i + 1}`;
+
+            tokens.push({ text, quoted: true, negated, position, end: end + 1 });
+            i = end + 1;
+            continue;
+        }
+
+        let end = i;
+        while (end < input.length && !/\s/.test(input[end]) && input[end] !== "\"") end++;
+        tokens.push({ text: input.slice(i, end), quoted: false, negated, position, end });
+        i = end;
+    }
+
+    return tokens;
+}
+
+export function parseQuery(input: string, knownModels: string[]): QueryParseResult {
+    const tokens = tokenizeQuery(input);
+    if (typeof tokens === "string") return { ok: false, error: tokens };
+
+    const query: ParsedQuery = { include: [], exclude: [], models: [] };
+    const words: string[] = [];
+
+    for (const token of tokens) {
+        const colon = token.text.indexOf(":");
+        const filter = !token.quoted && colon > 0 ? token.text.slice(0, colon).toLowerCase() : null;
+
+        if (filter && FILTERS.includes(filter)) {
+            const value = token.text.slice(colon + 1);
+            if (token.negated) return { ok: false, error: `${filter}: filters can't be excluded with "-"` };
+            if (!value) return { ok: false, error: `${filter}: needs a value` };
+
+            switch (filter) {
+                case "model": {
+                    const model = knownModels.find(name => name.toLowerCase() === value.toLowerCase());
+                    if (!model) return { ok: false, error: `Unknown model "${value}", expected one of: ${knownModels.join(", ")}` };
+                    if (!query.models.includes(model)) query.models.push(model);
+                    break;
+                }
+                case "ratio": {
+                    const ratio = value.toLowerCase();
+                    if (ratio !== "wide" && ratio !== "tall" && ratio !== "square") {
+                        return { ok: false, error: `ratio: expects wide, tall or square, got "${value}"` };
+                    }
+                    query.ratio = ratio;
+                    break;
+                }
+                case "min": {
+                    const match = /^(\d+)x(\d+)$/i.exec(value);
+                    if (!match) return { ok: false, error: `min: expects WIDTHxHEIGHT, e.g. min:300x200, got "${value}"` };
+                    query.minWidth = Number(match[1]);
+                    query.minHeight = Number(match[2]);
+                    break;
+                }
+                case "format": {
+                    const format = MEDIA_KINDS.find(kind => kind === value.toLowerCase());
+                    if (!format) return { ok: false, error: `format: expects ${MEDIA_KINDS.join(", ")}, got "${value}"` };
+                    query.format = format;
+                    break;
+                }
+            }
+            continue;
+        }
+
+        if (token.negated) query.exclude.push(token.text);
+        else if (token.quoted) query.include.push(token.text);
+        else words.push(token.text);
+    }
+
+    // bare words form a single query, placed first as it's usually the main one
+    if (words.length > 0) query.include.unshift(words.join(" "));
+
+    return { ok: true, query };
+}
+
+export function hasFilters(query: ParsedQuery): boolean {
+    return query.ratio !== undefined || query.minWidth !== undefined || query.format !== undefined;
+}
+
+export function matchesFilters(gif: Gif, query: ParsedQuery): boolean {
+    if (query.format && getMediaKind(gif) !== query.format) return false;
+    if (query.minWidth !== undefined && gif.width < query.minWidth) return false;
+    if (query.minHeight !== undefined && gif.height < query.minHeight) return false;
+
+    if (query.ratio && gif.width > 0 && gif.height > 0) {
+        const ratio = gif.width / gif.height;
+        switch (query.ratio) {
+            case "wide": return ratio >= WIDE_RATIO;
+            case "tall": return ratio <= 1 / WIDE_RATIO;
+            case "square": return ratio > 1 / WIDE_RATIO && ratio < WIDE_RATIO;
+        }
+    }
+
+    return true;
+}
+
+// A format: filter as parseQuery reads it, so a quoted "format:gif" stays a phrase
+function isFormatToken(token: Token): boolean {
+    return !token.quoted && !token.negated && token.text.toLowerCase().startsWith("format:");
+}
+
+// Replace the query's format: filter, or remove it when format is null, leaving the rest as typed.
+// A query that doesn't tokenize is left alone, the search already says what's wrong with it.
+export function withFormatFilter(input: string, format: MediaKind | null): string {
+    const tokens = tokenizeQuery(input);
+    if (typeof tokens === "string") return input;
+
+    const rest = tokens
+        .filter(token => !isFormatToken(token))
+        .map(token => input.slice(token.position, token.end))
+        .join(" ");
+    return format ? `${rest} format:${format}`.trim() : rest;
+}
+
+// The format: filter currently in the query, if it's a valid one
+export function getFormatFilter(input: string): MediaKind | null {
+    const tokens = tokenizeQuery(input);
+    if (typeof tokens === "string") return null;
+
+    // parseQuery keeps the last one
+    const value = tokens.filter(isFormatToken).pop()?.text.slice("format:".length).toLowerCase();
+    return MEDIA_KINDS.find(kind => kind === value) ?? null;
+}
+
+// Scale a result list into [0, 1], 1 being the best result
+function normalise(results: FusedResult[]): Map<string, number> {
+    const map = new Map<string, number>();
+    if (results.length === 0) return map;
+
+    const scores = results.map(result => result.score);
+    const min = Math.min(...scores);
+    const range = Math.max(...scores) - min;
+    for (const { url, score } of results) {
+        map.set(url, range === 0 ? 1 : (score - min) / range);
+    }
+    return map;
+}
+
+// Merge the fused results of every included query (mean of normalised scores, missing counts as 0)
+// and subtract a penalty for how well each GIF matches the excluded queries
+export function mergeQueryResults(included: FusedResult[][], excluded: FusedResult[][]): FusedResult[] {
+    const includedMaps = included.map(normalise);
+    const excludedMaps = excluded.map(normalise);
+
+    const urls = new Set<string>();
+    includedMaps.forEach(map => map.forEach((_, url) => urls.add(url)));
+
+    const merged: FusedResult[] = [];
+    for (const url of urls) {
+        let score = 0;
+        for (const map of includedMaps) score += map.get(url) ?? 0;
+        score /= includedMaps.length;
+
+        for (const map of excludedMaps) score -= EXCLUDE_PENALTY * (map.get(url) ?? 0);
+
+        merged.push({ url, score });
+    }
+
+    return merged.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,120 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { Gif } from ".";
+
+// Relevance badges and the "other favourites" divider are drawn onto the picker's own tiles, which it renders
+// and recycles itself, so they're re-applied whenever the grid changes.
+
+export interface ResultDecorations {
+    // GIF -> score relative to the best result from 0 to 1, only for GIFs that should show a badge
+    relevance: Map<Gif, number>;
+    // GIFs shown after the matches
+    others: Gif[];
+    // Result that Enter sends
+    highlighted: Gif | null;
+}
+
+const TILE_SELECTOR = "[class*=\"result\"]";
+
+let decorations: { relevance: Map<string, number>; others: Set<string>; highlighted: string | null; } | null = null;
+let watchedPanel: Element | null = null;
+let observer: MutationObserver | null = null;
+// Pending animation frame of a scheduled apply(), so a burst of grid mutations is handled once
+let frame: number | null = null;
+
+function stripQuery(url: string): string {
+    return url.split("?")[0];
+}
+
+function apply() {
+    if (!watchedPanel) return;
+
+    // Classes are written for every tile first and positions only read afterwards, so layout is computed once
+    const otherTiles: HTMLElement[] = [];
+    for (const media of watchedPanel.querySelectorAll<HTMLImageElement | HTMLVideoElement>("img, video")) {
+        const tile = media.closest<HTMLElement>(TILE_SELECTOR);
+        if (!tile) continue;
+
+        const src = stripQuery(media.src);
+        const relevance = decorations?.relevance.get(src);
+        const isOther = decorations?.others.has(src) ?? false;
+
+        tile.classList.toggle("clip-fav-relevance", relevance !== undefined);
+        if (relevance !== undefined) tile.dataset.clipRelevance = `${Math.round(relevance * 100)}%`;
+        else delete tile.dataset.clipRelevance;
+        tile.classList.toggle("clip-fav-other", isOther);
+        tile.classList.toggle("clip-fav-highlight", decorations?.highlighted === src);
+        tile.classList.remove("clip-fav-divider");
+
+        if (isOther) otherTiles.push(tile);
+    }
+
+    // The grid is masonry, so the divider goes above the first other favourite of each column
+    const columns = new Map<number, { tile: HTMLElement; top: number; }>();
+    for (const tile of otherTiles) {
+        const rect = tile.getBoundingClientRect();
+        const column = Math.round(rect.left);
+        const first = columns.get(column);
+        if (!first || rect.top < first.top) columns.set(column, { tile, top: rect.top });
+    }
+
+    columns.forEach(({ tile }) => tile.classList.add("clip-fav-divider"));
+}
+
+export function setResultDecorations(next: ResultDecorations | null) {
+    decorations = next && {
+        relevance: new Map([...next.relevance].map(([gif, relevance]) => [stripQuery(gif.src), relevance])),
+        others: new Set(next.others.map(gif => stripQuery(gif.src))),
+        highlighted: next.highlighted && stripQuery(next.highlighted.src)
+    };
+    // the picker re-renders after this, so wait for its tiles
+    scheduleApply();
+}
+
+function scheduleApply() {
+    frame ??= requestAnimationFrame(() => {
+        frame = null;
+        apply();
+    });
+}
+
+export function setHighlightedResult(gif: Gif) {
+    if (!decorations) return;
+    decorations.highlighted = stripQuery(gif.src);
+    apply();
+    watchedPanel?.querySelector(".clip-fav-highlight")?.scrollIntoView({ block: "nearest" });
+}
+
+// Keep the decorations on the tiles of this picker panel until the returned function is called
+export function watchResultTiles(panel: Element): () => void {
+    observer?.disconnect();
+    watchedPanel = panel;
+    observer = new MutationObserver(scheduleApply);
+    observer.observe(panel, { childList: true, subtree: true, attributes: true, attributeFilter: ["src"] });
+
+    return () => {
+        if (watchedPanel !== panel) return;
+        observer?.disconnect();
+        observer = null;
+        if (frame !== null) cancelAnimationFrame(frame);
+        frame = null;
+        watchedPanel = null;
+        decorations = null;
+    };
+}
@@ -0,0 +1,179 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { UserStore } from "@webpack/common";
+
+import { Gif, settings } from ".";
+import { getApiClient, SearchQuery } from "./api";
+import { FusedResult, FusionStrategy, fuseResults, ModelResults, resolveModelWeights } from "./fusion";
+import { getAccountKey } from "./keys";
+import { withLexicalMatches } from "./lexical";
+import { searchLocal } from "./localEmbeddings";
+import { hasFilters, matchesFilters, mergeQueryResults, ParsedQuery, parseQuery } from "./query";
+import { cacheResults, getCachedResults } from "./searchCache";
+
+// The search pipeline shared by the picker's search bar and the /favgif command:
+// query parsing, server or local ranking, fusion, the match cutoff, keyword matches and size and format filters
+
+export interface SearchOutcome {
+    // Best first
+    matches: Gif[];
+    // CLIP results that missed the cutoff, then the favourites that weren't ranked at all in the usual order
+    others: Gif[];
+    // Score of the CLIP matches relative to the search's best (1) and worst (0) result, so it orders
+    // results within one search but says nothing about how well the search matched overall
+    relevance: Map<Gif, number>;
+    // Unfused per-model results of the queries the matches came from, for learning from picks
+    modelResults: ModelResults[];
+    // Local mode couldn't rank on this device, so the server ranked the search instead
+    rankedOnServer: boolean;
+    // The parsed query, whose filters the matches and others already passed
+    query: ParsedQuery;
+}
+
+export type SearchResult = { ok: true; outcome: SearchOutcome; } | { ok: false; error: string; };
+
+// Scale fused scores to 0-1 between the worst and best result, since every fusion strategy uses its own range.
+// Fused scores come from ranks, so there is no absolute relevance to show, only how a result compares to the rest.
+function getRelevance(ranked: FusedResult[]): Map<string, number> {
+    const scores = ranked.map(({ score }) => score);
+    const max = Math.max(...scores);
+    const min = Math.min(...scores);
+    return new Map(ranked.map(({ url, score }) => [url, max > min ? (score - min) / (max - min) : 1]));
+}
+
+// How many of the ranked results count as matches, given their relevance in descending order
+function getCutoffIndex(relevance: number[]): number {
+    switch (settings.store.result_cutoff) {
+        case "top": return Math.min(relevance.length, Math.max(0, settings.store.cutoff_top_n));
+        case "relevance": {
+            const index = relevance.findIndex(r => r * 100 < settings.store.cutoff_min_relevance);
+            return index === -1 ? relevance.length : index;
+        }
+        default: return relevance.length;
+    }
+}
+
+// Search the favourites by text, or by a favourite's embedding for "more like this".
+// Throws if the search was aborted, or if the server failed and keyword search is off.
+export async function searchFavorites(query: string | Gif, favorites: Gif[], signal?: AbortSignal): Promise<SearchResult> {
+    const similarTo = typeof query === "string" ? null : query;
+    const modelWeights: Record<string, number> = settings.store.modelWeights ?? {};
+
+    // "More like this" searches by embedding, text goes through the query parser
+    let parsed: ParsedQuery = { include: [], exclude: [], models: [] };
+    if (typeof query === "string") {
+        const result = parseQuery(query, Object.keys(modelWeights));
+        if (!result.ok) return result;
+        parsed = result.query;
+    }
+
+    // Keyword search only applies to text queries
+    const lexicalMode = similarTo ? "off" : settings.store.lexical_search;
+    const lexicalText = parsed.include.join(" ");
+
+    const includedResults: ModelResults[] = [];
+    let rankedOnServer = false;
+    const applyFilters = (gifs: Gif[]) => hasFilters(parsed) ? gifs.filter(gif => matchesFilters(gif, parsed)) : gifs;
+    const toOutcome = (matches: Gif[], belowCutoff: Gif[] = [], relevance = new Map<Gif, number>()): SearchResult => {
+        const matched = new Set(matches);
+        return {
+            ok: true,
+            outcome: {
+                matches: applyFilters(matches),
+                others: applyFilters([...new Set([...belowCutoff, ...favorites])].filter(gif => !matched.has(gif))),
+                relevance,
+                modelResults: includedResults,
+                rankedOnServer,
+                query: parsed
+            }
+        };
+    };
+    const lexicalFallback = () => toOutcome(lexicalText ? withLexicalMatches([], favorites, lexicalText) : favorites);
+
+    const id = UserStore.getCurrentUser().id;
+    const key = getAccountKey(id);
+    if (!key) {
+        return lexicalMode !== "off" ? lexicalFallback() : toOutcome([]);
+    }
+
+    try {
+        // model:<name> pins the models for this query, otherwise use every model with >0 weight
+        const weights = parsed.models.length > 0
+            ? Object.fromEntries(parsed.models.map(model => [model, 1]))
+            : modelWeights;
+        const models = Object.entries(weights).filter(([, w]) => w > 0).map(([name]) => name);
+
+        // Fuse the per-model rankings of one server query with the configured strategy
+        const search = async (query: SearchQuery, included = true) => {
+            const local = settings.store.search_mode === "local";
+            let modelResults = local ? await searchLocal(id, key, query, models, signal) : null;
+            if (local && !modelResults) rankedOnServer = true;
+            modelResults ??= getCachedResults(id, query, models, favorites) ?? null;
+            if (!modelResults) {
+                modelResults = await getApiClient().search(key, query, models, signal);
+                cacheResults(id, query, models, favorites, modelResults);
+            }
+            if (included) includedResults.push(modelResults);
+            return fuseResults(settings.store.fusion_strategy as FusionStrategy, modelResults, resolveModelWeights(Object.keys(modelResults), weights), {
+                rrfK: settings.store.rrf_k
+            });
+        };
+
+        let ranked: FusedResult[];
+        if (similarTo) {
+            // the GIF we're searching from would always be its own best match
+            ranked = (await search({ name: similarTo.url })).filter(({ url }) => url !== similarTo.url);
+        } else {
+            // Every included and excluded term is its own server query, merged afterwards
+            const [included, excluded] = await Promise.all([
+                Promise.all(parsed.include.map(text => search({ text }))),
+                Promise.all(parsed.exclude.map(text => search({ text }, false)))
+            ]);
+
+            // With only exclusions or filters, keep the usual favourites order as the base ranking
+            if (included.length === 0) {
+                included.push(favorites.map((gif, i) => ({ url: gif.url, score: favorites.length - i })));
+            }
+            ranked = mergeQueryResults(included, excluded);
+        }
+
+        const byUrl = new Map(favorites.map(gif => [gif.url, gif]));
+        const rankedGifs = ranked.filter(({ url }) => byUrl.has(url));
+        const relevance = getRelevance(rankedGifs);
+        const clipGifs = rankedGifs.map(({ url }) => byUrl.get(url)!);
+        const cutoff = getCutoffIndex(rankedGifs.map(({ url }) => relevance.get(url)!));
+
+        // Keyword matches go after the CLIP hits, or replace them if the server found nothing.
+        // Only GIFs CLIP didn't rank at all are added, the ones below the cutoff stay there.
+        const matches = clipGifs.slice(0, cutoff);
+        return toOutcome(
+            lexicalMode === "blend" || (lexicalMode === "fallback" && clipGifs.length === 0)
+                ? withLexicalMatches(matches, favorites, lexicalText, clipGifs)
+                : matches,
+            clipGifs.slice(cutoff),
+            new Map(matches.map(gif => [gif, relevance.get(gif.url)!]))
+        );
+    } catch (err: any) {
+        if (err.name === "AbortError" || lexicalMode === "off") throw err;
+
+        // Server unreachable, fall back to keyword search so favourites are still findable
+        console.error("Error fetching search results:", err);
+        return lexicalFallback();
+    }
+}
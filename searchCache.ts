@@ -0,0 +1,87 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import type { Gif } from ".";
+import type { SearchQuery, StatusCounts } from "./api";
+import type { ModelResults } from "./fusion";
+import { getIndexableNames } from "./validation";
+
+// LRU cache of raw per-model server results. Fusion happens after the cache, so weight and strategy
+// changes re-rank cached results without going back to the server.
+
+// Each entry can hold up to k=10000 results per model, so keep the cache small
+const MAX_ENTRIES = 50;
+
+// Map iteration order is insertion order, so the first key is always the least recently used
+const cache = new Map<string, ModelResults>();
+const favoritesHashes = new WeakMap<Gif[], string>();
+// Completed and failed counts per model the cached results were made with
+let indexSignature = "";
+
+// Order-independent FNV-1a hash of the favourites the server can index
+function getFavoritesHash(favorites: Gif[]): string {
+    let hash = favoritesHashes.get(favorites);
+    if (hash === undefined) {
+        const names = getIndexableNames(favorites).sort();
+        let h = 0x811c9dc5;
+        for (const name of names) {
+            for (let i = 0; i < name.length; i++) h = Math.imul(h ^ name.charCodeAt(i), 0x01000193);
+            h = Math.imul(h ^ 0x0a, 0x01000193);
+        }
+        hash = `${names.length}:${(h >>> 0).toString(16)}`;
+        favoritesHashes.set(favorites, hash);
+    }
+    return hash;
+}
+
+function getCacheKey(userId: string, query: SearchQuery, models: string[], favorites: Gif[]): string {
+    const queryKey = "text" in query ? `text:${query.text}` : `name:${query.name}`;
+    return JSON.stringify([userId, queryKey, [...models].sort(), getFavoritesHash(favorites)]);
+}
+
+export function getCachedResults(userId: string, query: SearchQuery, models: string[], favorites: Gif[]): ModelResults | undefined {
+    const key = getCacheKey(userId, query, models, favorites);
+    const results = cache.get(key);
+    if (results) {
+        cache.delete(key);
+        cache.set(key, results);
+    }
+    return results;
+}
+
+export function cacheResults(userId: string, query: SearchQuery, models: string[], favorites: Gif[], results: ModelResults) {
+    const key = getCacheKey(userId, query, models, favorites);
+    cache.delete(key);
+    cache.set(key, results);
+    while (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+}
+
+export function invalidateSearchCache() {
+    cache.clear();
+}
+
+// Results change as the server finishes processing GIFs, so drop the cache whenever the finished counts move.
+// Returns whether they moved.
+export function noteIndexCounts(counts: Record<string, StatusCounts>): boolean {
+    const signature = JSON.stringify(Object.entries(counts).sort(([a], [b]) => a.localeCompare(b)).map(([model, c]) => [model, c[0], c[3]]));
+    if (signature === indexSignature) return false;
+
+    indexSignature = signature;
+    invalidateSearchCache();
+    return true;
+}
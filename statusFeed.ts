@@ -0,0 +1,154 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { useEffect, useState, UserStore } from "@webpack/common";
+
+import { getApiClient, StatusCountsResponse } from "./api";
+import { getAccountKey } from "./keys";
+
+// One shared status subscription for every component showing indexing progress.
+// Uses the server's status stream when available, otherwise polls /statuscounts, backing off while
+// nothing changes or requests fail, and stops once every GIF is either Failed or Completed.
+
+export interface StatusFeedState {
+    data: StatusCountsResponse | null;
+    error: string | null;
+    loading: boolean;
+}
+
+const MIN_POLL_INTERVAL = 5 * 1000;
+const MAX_POLL_INTERVAL = 60 * 1000;
+const UNCHANGED_BACKOFF = 1.5;
+const ERROR_BACKOFF = 2;
+
+const listeners = new Set<(state: StatusFeedState) => void>();
+let state: StatusFeedState = { data: null, error: null, loading: true };
+
+let running = false;
+// Bumped on every stop so requests still in flight from an earlier run don't schedule more work
+let generation = 0;
+let pollTimeout: NodeJS.Timeout | null = null;
+let pollInterval = MIN_POLL_INTERVAL;
+let closeStream: (() => void) | null = null;
+
+function setState(next: Partial<StatusFeedState>) {
+    state = { ...state, ...next };
+    listeners.forEach(listener => listener(state));
+}
+
+// Downloading and Processing are the only states that still change by themselves
+export function isTerminal(data: StatusCountsResponse): boolean {
+    return Object.values(data.counts).every(counts => counts[1] === 0 && counts[2] === 0);
+}
+
+function getKey(): string | null {
+    return getAccountKey(UserStore.getCurrentUser().id);
+}
+
+function stop() {
+    running = false;
+    generation++;
+    if (pollTimeout) clearTimeout(pollTimeout);
+    pollTimeout = null;
+    closeStream?.();
+    closeStream = null;
+}
+
+function schedulePoll(run: number) {
+    if (running && run === generation) pollTimeout = setTimeout(() => poll(run), pollInterval);
+}
+
+async function poll(run: number) {
+    const key = getKey();
+    if (!key) {
+        setState({ error: "No valid account key found", loading: false });
+        stop();
+        return;
+    }
+
+    try {
+        const data = await getApiClient().getStatusCounts(key);
+        if (run !== generation) return;
+
+        const changed = JSON.stringify(data) !== JSON.stringify(state.data);
+        setState({ data, error: null, loading: false });
+
+        if (isTerminal(data)) {
+            stop();
+            return;
+        }
+        pollInterval = changed ? MIN_POLL_INTERVAL : Math.min(pollInterval * UNCHANGED_BACKOFF, MAX_POLL_INTERVAL);
+    } catch (err: any) {
+        if (run !== generation) return;
+        console.error('Error fetching status counts:', err);
+        setState({ error: err.message || 'Failed to fetch status counts', loading: false });
+        pollInterval = Math.min(pollInterval * ERROR_BACKOFF, MAX_POLL_INTERVAL);
+    }
+
+    schedulePoll(run);
+}
+
+async function start() {
+    if (running) return;
+    running = true;
+    pollInterval = MIN_POLL_INTERVAL;
+    const run = generation;
+
+    const key = getKey();
+    const client = getApiClient();
+    const useStream = key != null && await client.supports("status-stream");
+    if (run !== generation) return;
+
+    if (useStream) {
+        closeStream = client.openStatusStream(key, data => {
+            setState({ data, error: null, loading: false });
+            if (isTerminal(data)) stop();
+        }, error => {
+            console.log("Status stream failed, falling back to polling", error);
+            closeStream = null;
+            poll(run);
+        });
+        return;
+    }
+
+    poll(run);
+}
+
+export function subscribeStatus(listener: (state: StatusFeedState) => void): () => void {
+    listeners.add(listener);
+    listener(state);
+    start();
+
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+    };
+}
+
+// Start watching again after something was queued for indexing, e.g. an upload or retry
+export function refreshStatus() {
+    if (listeners.size === 0) return;
+    stop();
+    start();
+}
+
+export function useStatusFeed(): StatusFeedState {
+    const [feedState, setFeedState] = useState(state);
+    useEffect(() => subscribeStatus(setFeedState), []);
+    return feedState;
+}
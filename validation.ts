@@ -0,0 +1,120 @@
+/*
+ * Vencord, a modification for Discord's desktop app
+ * Copyright (c) 2023 Vendicated and contributors
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { Gif, settings } from ".";
+import { isHostAllowed, LEGACY_ALLOWED_HOSTS, parseHostList } from "./media";
+
+// Limits enforced by the server
+const MAX_NAME_LENGTH = 512;
+const MAX_SRC_LENGTH = 2000;
+const MAX_DOMAIN_LENGTH = 256;
+
+// Why a favourite can never be indexed
+export type SkipReason =
+    | { type: "name-too-long"; length: number; }
+    | { type: "src-too-long"; length: number; }
+    | { type: "invalid-protocol"; src: string; }
+    | { type: "invalid-domain"; domain: string; }
+    | { type: "unsupported-host"; domain: string; };
+
+export interface IndexableGif {
+    name: string;
+    src: string;
+    // Its media kind is only worked out when it's actually uploaded
+    gif: Gif;
+}
+
+export interface SkippedGif {
+    gif: Gif;
+    reason: SkipReason;
+}
+
+// Assumed until the server says otherwise, so nothing it would refuse is sent before it's been asked
+let legacyHostsOnly = true;
+
+// Called with the server's capabilities before planning an upload
+export function setLegacyHostsOnly(value: boolean) {
+    legacyHostsOnly = value;
+}
+
+export function validateGif(gif: Gif, allowedHosts = parseHostList(settings.store.allowed_hosts)): SkipReason | null {
+    const name = gif.url;
+
+    // Check name length
+    if (name.length > MAX_NAME_LENGTH) return { type: "name-too-long", length: name.length };
+
+    // Check src length
+    if (gif.src.length > MAX_SRC_LENGTH) return { type: "src-too-long", length: gif.src.length };
+
+    // Check src protocol and extract domain
+    let domainOffset: number;
+    if (gif.src.startsWith("http://")) {
+        domainOffset = 7;
+    } else if (gif.src.startsWith("https://")) {
+        domainOffset = 8;
+    } else {
+        return { type: "invalid-protocol", src: gif.src };
+    }
+
+    const pathIdx = gif.src.indexOf('/', domainOffset);
+    const endIdx = pathIdx === -1 ? gif.src.length : pathIdx;
+    const domain = gif.src.substring(domainOffset, endIdx);
+
+    // Check domain validity
+    if (!domain || domain.length > MAX_DOMAIN_LENGTH || !isHostAllowed(domain, allowedHosts)) {
+        return { type: "invalid-domain", domain };
+    }
+    if (legacyHostsOnly && !isHostAllowed(domain, LEGACY_ALLOWED_HOSTS)) {
+        return { type: "unsupported-host", domain };
+    }
+
+    return null;
+}
+
+export function describeSkipReason(reason: SkipReason): string {
+    switch (reason.type) {
+        case "name-too-long": return `Link is too long (${reason.length} > ${MAX_NAME_LENGTH} characters)`;
+        case "src-too-long": return `Media URL is too long (${reason.length} > ${MAX_SRC_LENGTH} characters)`;
+        case "invalid-protocol": return "Media URL is not http(s)";
+        case "invalid-domain": return reason.domain
+            ? `Hosted on ${reason.domain}, which isn't in the allowed hosts`
+            : "Media URL has no domain";
+        case "unsupported-host": return `Hosted on ${reason.domain}, which the server can't index`;
+    }
+}
+
+// Split favourites into the ones the server can index and the ones it never will
+export function partitionFavorites(favorites: Gif[]): { valid: IndexableGif[]; skipped: SkippedGif[]; } {
+    const valid: IndexableGif[] = [];
+    const skipped: SkippedGif[] = [];
+    const allowedHosts = parseHostList(settings.store.allowed_hosts);
+
+    for (const gif of favorites) {
+        const reason = validateGif(gif, allowedHosts);
+        if (reason) skipped.push({ gif, reason });
+        else valid.push({ name: gif.url, src: gif.src, gif });
+    }
+
+    return { valid, skipped };
+}
+
+// Names of the favourites the server can index, cheap enough to check on every render
+export function getIndexableNames(favorites: Gif[]): string[] {
+    const allowedHosts = parseHostList(settings.store.allowed_hosts);
+    return favorites.filter(gif => !validateGif(gif, allowedHosts)).map(gif => gif.url);
+}